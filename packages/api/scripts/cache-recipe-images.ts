@@ -0,0 +1,25 @@
+// Downloads and resizes images for recipes that have an imageUrl but no cached
+// copy yet: recipes from before image caching, or whose download failed.
+//
+//   npm run cache:images -w packages/api
+import { prisma } from '../src/lib/db.js';
+import { syncRecipeImage } from '../src/lib/recipe-images.js';
+
+const recipes = await prisma.recipe.findMany({
+  where: { imageUrl: { not: null }, image: null },
+  select: { id: true },
+  orderBy: { id: 'asc' }
+});
+
+let cached = 0;
+for (const { id } of recipes) {
+  try {
+    await syncRecipeImage(id);
+    if (await prisma.recipeImage.count({ where: { recipeId: id } })) cached++;
+  } catch (err) {
+    console.error(`Recipe ${id}:`, err);
+  }
+}
+
+console.log(`Cached ${cached} of ${recipes.length} recipe images`);
+await prisma.$disconnect();
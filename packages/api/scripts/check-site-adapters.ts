@@ -0,0 +1,61 @@
+// Runs the scraper against saved pages in scripts/fixtures/sites without touching the network.
+// Each `<name>.html` has a `<name>.json` next to it: { "url": ..., "expected": { ...ScrapedRecipe fields } }.
+// Only the listed fields are compared, so fixtures can pin down just what an adapter is for.
+//
+//   npm run check:sites -w packages/api [-- name-filter]
+import { deepStrictEqual } from 'node:assert';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { extractRecipe } from '../src/lib/scrape.js';
+import { SITE_ADAPTERS } from '../src/lib/site-adapters/index.js';
+
+type Fixture = {
+  url: string;
+  expected: Record<string, unknown>;
+};
+
+const fixturesDir = fileURLToPath(new URL('./fixtures/sites', import.meta.url));
+const filter = process.argv[2];
+
+const names = readdirSync(fixturesDir)
+  .filter((f) => f.endsWith('.json'))
+  .map((f) => f.replace(/\.json$/, ''))
+  .filter((name) => !filter || name.includes(filter))
+  .sort();
+
+let failed = 0;
+const covered = new Set<string>();
+
+for (const name of names) {
+  const fixture = JSON.parse(readFileSync(join(fixturesDir, `${name}.json`), 'utf8')) as Fixture;
+  const html = readFileSync(join(fixturesDir, `${name}.html`), 'utf8');
+  const actual = extractRecipe(html, fixture.url) as Record<string, unknown>;
+  if (typeof actual.siteAdapter === 'string') covered.add(actual.siteAdapter);
+
+  const mismatches: string[] = [];
+  for (const [field, expected] of Object.entries(fixture.expected)) {
+    try {
+      deepStrictEqual(actual[field], expected);
+    } catch {
+      mismatches.push(`  ${field}\n    expected ${JSON.stringify(expected)}\n    got      ${JSON.stringify(actual[field])}`);
+    }
+  }
+
+  if (mismatches.length) {
+    failed++;
+    console.log(`FAIL ${name}\n${mismatches.join('\n')}`);
+  } else {
+    console.log(`ok   ${name}`);
+  }
+}
+
+if (!filter) {
+  for (const adapter of SITE_ADAPTERS) {
+    if (!covered.has(adapter.name)) console.log(`warn no fixture exercises adapter "${adapter.name}"`);
+  }
+}
+
+console.log(`\n${names.length - failed}/${names.length} fixtures passed`);
+process.exitCode = failed ? 1 : 0;
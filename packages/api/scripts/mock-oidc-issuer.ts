@@ -0,0 +1,155 @@
+// A throwaway OpenID Connect issuer for trying SSO locally. It signs in whoever
+// types an email on its consent page (or passes ?email= to /authorize, handy
+// for scripts), checks PKCE and the redirect URI, and issues RS256 ID tokens.
+//
+//   npm run mock:oidc -w packages/api
+//   OIDC_ISSUER=http://localhost:4400 OIDC_CLIENT_ID=meal-rotation npm run dev
+import { createHash, createSign, generateKeyPairSync, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const port = Number(process.env.MOCK_OIDC_PORT ?? 4400);
+const issuer = process.env.MOCK_OIDC_ISSUER ?? `http://localhost:${port}`;
+const clientId = process.env.MOCK_OIDC_CLIENT_ID ?? 'meal-rotation';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = randomBytes(8).toString('hex');
+
+type PendingCode = {
+  clientId: string;
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string;
+  email: string;
+};
+
+const codes = new Map<string, PendingCode>();
+
+function signJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  return `${input}.${createSign('sha256').update(input).sign(privateKey).toString('base64url')}`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json', 'cache-control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+async function readBody(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+}
+
+function authorize(url: URL, res: ServerResponse) {
+  const q = url.searchParams;
+  const redirectUri = q.get('redirect_uri');
+  if (q.get('client_id') !== clientId || !redirectUri) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'Unknown client or missing redirect_uri' });
+    return;
+  }
+  if (q.get('response_type') !== 'code' || q.get('code_challenge_method') !== 'S256' || !q.get('code_challenge')) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'Expected response_type=code with an S256 PKCE challenge' });
+    return;
+  }
+
+  const email = q.get('email')?.trim().toLowerCase();
+  if (!email) {
+    // Consent page: submits back here with the email filled in.
+    const hidden = [...q.entries()].map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`).join('');
+    res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+    res.end(
+      `<!doctype html><title>Mock issuer</title><form method="get" action="/authorize">${hidden}` +
+        `<p>Sign in to Meal Rotation as:</p><input name="email" type="email" required autofocus> <button>Continue</button></form>`
+    );
+    return;
+  }
+
+  const code = randomBytes(16).toString('base64url');
+  codes.set(code, {
+    clientId,
+    redirectUri,
+    nonce: q.get('nonce'),
+    codeChallenge: q.get('code_challenge')!,
+    email
+  });
+
+  const back = new URL(redirectUri);
+  back.searchParams.set('code', code);
+  if (q.get('state')) back.searchParams.set('state', q.get('state')!);
+  res.writeHead(302, { location: back.toString() });
+  res.end();
+}
+
+async function token(req: IncomingMessage, res: ServerResponse) {
+  const body = await readBody(req);
+  const code = body.get('code') ?? '';
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (body.get('grant_type') !== 'authorization_code' || !pending) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+  if (body.get('client_id') !== pending.clientId || body.get('redirect_uri') !== pending.redirectUri) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri does not match' });
+    return;
+  }
+  const challenge = createHash('sha256').update(body.get('code_verifier') ?? '').digest('base64url');
+  if (challenge !== pending.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  sendJson(res, 200, {
+    access_token: randomBytes(16).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: signJwt({
+      iss: issuer,
+      aud: pending.clientId,
+      // Stable per email, like a real issuer's account id.
+      sub: createHash('sha256').update(pending.email).digest('hex').slice(0, 24),
+      email: pending.email,
+      email_verified: true,
+      iat: now,
+      exp: now + 300,
+      ...(pending.nonce ? { nonce: pending.nonce } : {})
+    })
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', issuer);
+  if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+    sendJson(res, 200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_basic']
+    });
+  } else if (req.method === 'GET' && url.pathname === '/jwks') {
+    sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' }] });
+  } else if (req.method === 'GET' && url.pathname === '/authorize') {
+    authorize(url, res);
+  } else if (req.method === 'POST' && url.pathname === '/token') {
+    token(req, res).catch((err) => sendJson(res, 500, { error: 'server_error', error_description: String(err) }));
+  } else {
+    sendJson(res, 404, { error: 'not_found' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock OIDC issuer ${issuer} (client id "${clientId}")`);
+});
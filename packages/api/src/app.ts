@@ -2,14 +2,30 @@ import cors from 'cors';
 import express from 'express';
 
 import { errorHandler } from './middleware/error-handler.js';
+import { attachPool } from './middleware/pool.js';
 import { attachSessionUser } from './middleware/session-user.js';
 import { requireAuth } from './middleware/require-auth.js';
+import { tokenScope } from './middleware/token-scope.js';
+import accountRouter from './routes/account.js';
 import authRouter from './routes/auth.js';
+import householdsRouter from './routes/households.js';
+import imagesRouter from './routes/images.js';
+import pantryRouter from './routes/pantry.js';
+import plansRouter from './routes/plans.js';
 import recipesRouter from './routes/recipes.js';
+import sharedRouter from './routes/shared.js';
+import shoppingListsRouter from './routes/shopping-lists.js';
+import tagsRouter from './routes/tags.js';
 
 export function createApp() {
   const app = express();
 
+  // Behind a reverse proxy, req.ip (used for sign-in limits and the session list) is the proxy's unless this is set.
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+  }
+
   app.use(
     cors({
       origin: (_origin, cb) => cb(null, true),
@@ -17,7 +33,10 @@ export function createApp() {
     })
   );
 
-  app.use(express.json({ limit: '2mb' }));
+  // File uploads read the raw body themselves, under a much larger limit than JSON requests get.
+  const RAW_BODY_PATHS = new Set(['/recipes/import/file', '/account/import']);
+  const jsonBody = express.json({ limit: '2mb' });
+  app.use((req, res, next) => (RAW_BODY_PATHS.has(req.path) ? next() : jsonBody(req, res, next)));
 
   app.use(attachSessionUser);
 
@@ -25,8 +44,16 @@ export function createApp() {
     res.json({ ok: true });
   });
 
-  app.use('/auth', authRouter);
-  app.use('/recipes', requireAuth, recipesRouter);
+  app.use('/auth', tokenScope(null), authRouter);
+  app.use('/shared', sharedRouter);
+  app.use('/account', requireAuth, tokenScope(null), attachPool, accountRouter);
+  app.use('/households', requireAuth, tokenScope(null), attachPool, householdsRouter);
+  app.use('/recipes', requireAuth, tokenScope('recipes'), attachPool, recipesRouter);
+  app.use('/plans', requireAuth, tokenScope('plans'), attachPool, plansRouter);
+  app.use('/shopping-lists', requireAuth, tokenScope('shopping'), attachPool, shoppingListsRouter);
+  app.use('/pantry', requireAuth, tokenScope('pantry'), attachPool, pantryRouter);
+  app.use('/tags', requireAuth, tokenScope('recipes'), attachPool, tagsRouter);
+  app.use('/images', requireAuth, tokenScope('recipes'), attachPool, imagesRouter);
 
   app.use(errorHandler);
 
@@ -0,0 +1,46 @@
+import { appLink } from './app-url.js';
+import { createAuthToken, recentlySentAuthToken } from './auth-tokens.js';
+import { sendMail } from './mail.js';
+
+// Asking again within this window doesn't send another email.
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+type Recipient = { id: number; email: string };
+
+export async function sendPasswordResetEmail(user: Recipient): Promise<void> {
+  if (await recentlySentAuthToken(user.id, 'password_reset', RESEND_COOLDOWN_MS)) {
+    return;
+  }
+
+  const token = await createAuthToken(user.id, 'password_reset');
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Meal Rotation password',
+    text: [
+      'Someone (hopefully you) asked to reset the password for this Meal Rotation account.',
+      '',
+      `Choose a new password here within the next hour: ${appLink({ reset: token })}`,
+      '',
+      'If it wasn’t you, ignore this email; your password stays as it is.'
+    ].join('\n')
+  });
+}
+
+export async function sendVerificationEmail(user: Recipient): Promise<void> {
+  if (await recentlySentAuthToken(user.id, 'email_verification', RESEND_COOLDOWN_MS)) {
+    return;
+  }
+
+  const token = await createAuthToken(user.id, 'email_verification');
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your email for Meal Rotation',
+    text: [
+      'Confirm this is your email address so you can reset your password if you ever forget it:',
+      '',
+      appLink({ verify: token }),
+      '',
+      'The link works for 3 days.'
+    ].join('\n')
+  });
+}
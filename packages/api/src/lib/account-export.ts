@@ -0,0 +1,506 @@
+import { parseIngredients } from '@meal-rotation/ingredients';
+import { MealSlot, Prisma, ScrapeStatus, UnitPreference } from '@prisma/client';
+import { strFromU8, strToU8, zipSync } from 'fflate';
+import { z } from 'zod';
+
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { cookEventsInPool, plansInPool, poolOwner, recipeOwner, recipesInPool, tagsInPool } from './households.js';
+import { HttpError } from './http-error.js';
+import { ImportFormatError, createUnpackBudget, unzipLimited } from './importers/common.js';
+import { imageStorage } from './image-storage.js';
+import { staplesFromJson } from './pantry.js';
+import { formatDate, parseDateParam, planWhereWeek } from './plans.js';
+import { downloadImage, imageKey, syncRecipeImagesLater } from './recipe-images.js';
+import { enqueueNewRecipes } from './scrape-queue.js';
+import { itemKey } from './shopping-list.js';
+import { cleanTagName, connectTags, recipeTagsInclude, replaceTags, tagKey, withTagNames } from './tags.js';
+
+// Bump when the shape changes incompatibly; import rejects versions it doesn't know.
+export const EXPORT_VERSION = 1;
+const EXPORT_FORMAT = 'meal-rotation-export';
+const ARCHIVE_JSON = 'export.json';
+
+const recipeExportSelect = {
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  title: true,
+  sourceUrl: true,
+  sourceHost: true,
+  imageUrl: true,
+  description: true,
+  servings: true,
+  servingsText: true,
+  ingredients: true,
+  instructions: true,
+  prepMinutes: true,
+  cookMinutes: true,
+  totalMinutes: true,
+  cuisine: true,
+  category: true,
+  keywords: true,
+  nutrition: true,
+  author: true,
+  ratingValue: true,
+  ratingCount: true,
+  scrapeStatus: true,
+  scrapeError: true,
+  scrapeExtractor: true,
+  lastScrapedAt: true,
+  notes: true,
+  tags: recipeTagsInclude,
+  manualFields: true
+} satisfies Prisma.RecipeSelect;
+
+const json = z.unknown().optional().nullable();
+const text = z.string().optional().nullable();
+const int = z.number().int().optional().nullable();
+const timestamp = z.coerce.date();
+
+// Ids in an export only link records within the file; they are not database ids on import.
+const exportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  preferences: z.object({ unitPreference: z.nativeEnum(UnitPreference) }).optional(),
+  pantry: z
+    .object({
+      items: z.array(z.string().min(1)),
+      // null: the user never changed the default staples.
+      staples: z.array(z.string()).nullable()
+    })
+    .optional(),
+  // Every tag, including ones no recipe uses; recipes list their own tags too.
+  tags: z.array(z.string()).default([]),
+  recipes: z.array(
+    z.object({
+      id: z.number().int(),
+      createdAt: timestamp,
+      updatedAt: timestamp.optional(),
+      title: z.string().min(1),
+      sourceUrl: z.string().url().optional().nullable(),
+      sourceHost: text,
+      imageUrl: text,
+      // Path of the image file inside a zip export.
+      image: text,
+      description: text,
+      servings: z.number().optional().nullable(),
+      servingsText: text,
+      ingredients: json,
+      instructions: json,
+      prepMinutes: int,
+      cookMinutes: int,
+      totalMinutes: int,
+      cuisine: json,
+      category: json,
+      keywords: json,
+      nutrition: json,
+      author: text,
+      ratingValue: z.number().optional().nullable(),
+      ratingCount: int,
+      scrapeStatus: z.nativeEnum(ScrapeStatus).optional(),
+      scrapeError: text,
+      scrapeExtractor: text,
+      lastScrapedAt: timestamp.optional().nullable(),
+      notes: text,
+      // The exporting user's own note on the recipe.
+      personalNote: text,
+      tags: z.array(z.string()).optional().nullable(),
+      manualFields: json
+    })
+  ),
+  mealPlans: z
+    .array(
+      z.object({
+        weekStart: z.string(),
+        notes: text,
+        meals: z.array(z.object({ date: z.string(), slot: z.nativeEnum(MealSlot), recipeId: z.number().int(), note: text }))
+      })
+    )
+    .default([]),
+  cookEvents: z
+    .array(
+      z.object({
+        recipeId: z.number().int(),
+        cookedAt: z.string(),
+        rating: int,
+        comment: text,
+        createdAt: timestamp
+      })
+    )
+    .default([]),
+  shoppingLists: z
+    .array(
+      z.object({
+        name: z.string(),
+        weekStart: text,
+        sources: json,
+        createdAt: timestamp,
+        items: z.array(
+          z.object({
+            position: z.number().int(),
+            category: z.string(),
+            item: z.string(),
+            quantity: z.number().optional().nullable(),
+            unit: text,
+            text: z.string(),
+            checked: z.boolean(),
+            sources: json
+          })
+        )
+      })
+    )
+    .default([])
+});
+
+export type AccountExport = z.infer<typeof exportSchema>;
+
+function jsonValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null || value === undefined ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+}
+
+function imageExtension(contentType: string): string {
+  const subtype = contentType.split(';')[0]!.split('/')[1]?.trim() ?? 'img';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '') || 'img';
+}
+
+// The cached copy when there is one, which outlives the source site; otherwise a fresh download.
+async function fetchImage(recipeId: number, url: string): Promise<{ data: Uint8Array; extension: string } | null> {
+  const cached = await prisma.recipeImage.findFirst({
+    where: { recipeId, sourceUrl: url },
+    select: { storageKey: true, contentType: true }
+  });
+  const stored = cached && (await imageStorage().get(imageKey(cached.storageKey, 'original')));
+  const image = stored ? { data: stored, contentType: cached.contentType } : await downloadImage(url);
+  return image && { data: new Uint8Array(image.data), extension: imageExtension(image.contentType) };
+}
+
+// The user's own data plus the recipe pool they work in, which is the household's when they're in one.
+export async function buildAccountExport(pool: Pool): Promise<AccountExport> {
+  const { userId } = pool;
+  const [user, pantryItems, tags, recipes, plans, cookEvents, shoppingLists] = await Promise.all([
+    prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { unitPreference: true, pantryStaples: true } }),
+    prisma.pantryItem.findMany({ where: { userId }, orderBy: { name: 'asc' }, select: { name: true } }),
+    prisma.tag.findMany({ where: tagsInPool(pool), orderBy: { key: 'asc' }, select: { name: true } }),
+    prisma.recipe.findMany({
+      where: recipesInPool(pool),
+      orderBy: { id: 'asc' },
+      select: { ...recipeExportSelect, personalNotes: { where: { userId }, select: { body: true } } }
+    }),
+    prisma.mealPlan.findMany({
+      where: plansInPool(pool),
+      orderBy: { weekStart: 'asc' },
+      include: { meals: { orderBy: [{ date: 'asc' }, { slot: 'asc' }] } }
+    }),
+    prisma.cookEvent.findMany({ where: cookEventsInPool(pool), orderBy: [{ cookedAt: 'asc' }, { id: 'asc' }] }),
+    prisma.shoppingList.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+      include: { items: { orderBy: { position: 'asc' } } }
+    })
+  ]);
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    preferences: { unitPreference: user.unitPreference },
+    pantry: {
+      items: pantryItems.map((i) => i.name),
+      staples: Array.isArray(user.pantryStaples) ? staplesFromJson(user.pantryStaples) : null
+    },
+    tags: tags.map((t) => t.name),
+    recipes: recipes.map(({ personalNotes, ...r }) => ({
+      ...withTagNames(r),
+      personalNote: personalNotes[0]?.body ?? null,
+      image: null
+    })),
+    mealPlans: plans.map((plan) => ({
+      weekStart: formatDate(plan.weekStart),
+      notes: plan.notes,
+      meals: plan.meals.map((m) => ({ date: formatDate(m.date), slot: m.slot, recipeId: m.recipeId, note: m.note }))
+    })),
+    cookEvents: cookEvents.map((e) => ({
+      recipeId: e.recipeId,
+      cookedAt: formatDate(e.cookedAt),
+      rating: e.rating,
+      comment: e.comment,
+      createdAt: e.createdAt
+    })),
+    shoppingLists: shoppingLists.map((list) => ({
+      name: list.name,
+      weekStart: list.weekStart ? formatDate(list.weekStart) : null,
+      sources: list.sources,
+      createdAt: list.createdAt,
+      items: list.items.map((i) => ({
+        position: i.position,
+        category: i.category,
+        item: i.item,
+        quantity: i.quantity,
+        unit: i.unit,
+        text: i.text,
+        checked: i.checked,
+        sources: i.sources
+      }))
+    }))
+  };
+}
+
+/**
+ * Zip holding export.json plus a copy of every recipe image that is cached or
+ * could still be downloaded, so a backup survives source sites going away.
+ */
+export async function buildAccountArchive(data: AccountExport): Promise<Uint8Array> {
+  const files: Record<string, Uint8Array> = {};
+
+  // One at a time: this runs rarely and shouldn't hammer recipe sites.
+  for (const recipe of data.recipes) {
+    if (!recipe.imageUrl) continue;
+    const image = await fetchImage(recipe.id, recipe.imageUrl);
+    if (!image) continue;
+    recipe.image = `images/${recipe.id}.${image.extension}`;
+    files[recipe.image] = image.data;
+  }
+
+  files[ARCHIVE_JSON] = strToU8(JSON.stringify(data));
+  return zipSync(files, { level: 0 });
+}
+
+export type ParsedAccountExport = {
+  data: AccountExport;
+  // Image files of a zip export by path (a recipe's `image`).
+  images: Map<string, Uint8Array>;
+};
+
+export function parseAccountExport(body: Uint8Array): ParsedAccountExport {
+  let raw: unknown;
+  const images = new Map<string, Uint8Array>();
+  try {
+    const isZip = body[0] === 0x50 && body[1] === 0x4b;
+    const files = isZip
+      ? unzipLimited(body, createUnpackBudget(), (name) => name === ARCHIVE_JSON || name.startsWith('images/'))
+      : { [ARCHIVE_JSON]: body };
+    const jsonBytes = files[ARCHIVE_JSON];
+    if (!jsonBytes) {
+      throw new HttpError(400, `Archive has no ${ARCHIVE_JSON}`);
+    }
+    raw = JSON.parse(strFromU8(jsonBytes));
+    for (const [name, data] of Object.entries(files)) {
+      if (name !== ARCHIVE_JSON) images.set(name, data);
+    }
+  } catch (err) {
+    if (err instanceof HttpError) throw err;
+    if (err instanceof ImportFormatError) throw new HttpError(400, err.message);
+    throw new HttpError(400, 'Not an account export (expected JSON or a zip archive)');
+  }
+
+  const parsed = exportSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new HttpError(400, `Invalid account export: ${parsed.error.issues[0]?.message ?? 'unknown problem'}`);
+  }
+  if (parsed.data.version > EXPORT_VERSION) {
+    throw new HttpError(400, `Export version ${parsed.data.version} is newer than this server supports (${EXPORT_VERSION})`);
+  }
+  return { data: parsed.data, images };
+}
+
+export type AccountImportReport = {
+  recipes: { created: number; updated: number };
+  plannedMeals: number;
+  cookEvents: { created: number; skipped: number };
+  shoppingLists: { created: number; skipped: number };
+};
+
+/**
+ * Restore an export into the account. Safe to run repeatedly: recipes are
+ * matched by source URL (or, for hand-entered ones, title and creation time)
+ * and updated in place; plans, cook events and lists that already exist are
+ * left as they are.
+ */
+export async function importAccountExport(pool: Pool, { data, images }: ParsedAccountExport): Promise<AccountImportReport> {
+  const { userId } = pool;
+  const report: AccountImportReport = {
+    recipes: { created: 0, updated: 0 },
+    plannedMeals: 0,
+    cookEvents: { created: 0, skipped: 0 },
+    shoppingLists: { created: 0, skipped: 0 }
+  };
+  const pending: Array<{ id: number; sourceUrl: string }> = [];
+  const withImages: number[] = [];
+  // Images that came in the zip, by database id; restored from these rather than downloaded again.
+  const bundledImages = new Map<number, Buffer>();
+
+  await prisma.$transaction(
+    async (tx) => {
+      if (data.preferences) {
+        await tx.user.update({ where: { id: userId }, data: { unitPreference: data.preferences.unitPreference } });
+      }
+
+      if (data.pantry) {
+        const items = data.pantry.items.map((name) => ({ userId, name, key: itemKey(name) })).filter((i) => i.key);
+        await tx.pantryItem.createMany({ data: items, skipDuplicates: true });
+        if (data.pantry.staples) {
+          await tx.user.update({ where: { id: userId }, data: { pantryStaples: data.pantry.staples } });
+        }
+      }
+
+      const tagNames = data.tags.map(cleanTagName).filter(Boolean);
+      await tx.tag.createMany({
+        data: tagNames.map((name) => ({ ...poolOwner(pool), name: name.slice(0, 32), key: tagKey(name.slice(0, 32)) })),
+        skipDuplicates: true
+      });
+
+      // Export id -> database id.
+      const recipeIds = new Map<number, number>();
+
+      for (const r of data.recipes) {
+        const ingredients = Array.isArray(r.ingredients) ? r.ingredients.filter((l): l is string => typeof l === 'string') : null;
+        const fields = {
+          title: r.title.slice(0, 180),
+          sourceUrl: r.sourceUrl || null,
+          sourceHost: r.sourceHost ?? (r.sourceUrl ? new URL(r.sourceUrl).hostname : null),
+          imageUrl: r.imageUrl ?? null,
+          description: r.description ?? null,
+          servings: r.servings ?? null,
+          servingsText: r.servingsText ?? null,
+          ingredients: jsonValue(ingredients),
+          ingredientsParsed: ingredients ? parseIngredients(ingredients) : Prisma.JsonNull,
+          instructions: jsonValue(r.instructions),
+          prepMinutes: r.prepMinutes ?? null,
+          cookMinutes: r.cookMinutes ?? null,
+          totalMinutes: r.totalMinutes ?? null,
+          cuisine: jsonValue(r.cuisine),
+          category: jsonValue(r.category),
+          keywords: jsonValue(r.keywords),
+          nutrition: jsonValue(r.nutrition),
+          author: r.author ?? null,
+          ratingValue: r.ratingValue ?? null,
+          ratingCount: r.ratingCount ?? null,
+          scrapeStatus: r.scrapeStatus ?? (r.sourceUrl ? 'pending' : 'ok'),
+          scrapeError: r.scrapeError ?? null,
+          scrapeExtractor: r.scrapeExtractor ?? null,
+          lastScrapedAt: r.lastScrapedAt ?? null,
+          notes: r.notes ?? null,
+          manualFields: jsonValue(r.manualFields)
+        } satisfies Prisma.RecipeUncheckedUpdateInput;
+        const tags = (r.tags ?? []).filter((t) => cleanTagName(t)).map((t) => t.slice(0, 32));
+
+        const existing = await tx.recipe.findFirst({
+          where: {
+            ...recipesInPool(pool),
+            ...(r.sourceUrl ? { sourceUrl: r.sourceUrl } : { sourceUrl: null, title: fields.title, createdAt: r.createdAt })
+          },
+          select: { id: true }
+        });
+
+        if (existing) {
+          await tx.recipe.update({ where: { id: existing.id }, data: { ...fields, tags: replaceTags(pool, tags) } });
+          recipeIds.set(r.id, existing.id);
+          report.recipes.updated++;
+        } else {
+          const created = await tx.recipe.create({
+            data: { ...fields, ...recipeOwner(pool), createdAt: r.createdAt, tags: connectTags(pool, tags) },
+            select: { id: true }
+          });
+          recipeIds.set(r.id, created.id);
+          report.recipes.created++;
+          if (fields.scrapeStatus === 'pending' && fields.sourceUrl) {
+            pending.push({ id: created.id, sourceUrl: fields.sourceUrl });
+          }
+        }
+        if (fields.imageUrl) {
+          const recipeId = recipeIds.get(r.id)!;
+          withImages.push(recipeId);
+          const bundled = r.image ? images.get(r.image) : undefined;
+          if (bundled) bundledImages.set(recipeId, Buffer.from(bundled));
+        }
+      }
+
+      for (const r of data.recipes) {
+        if (!r.personalNote) continue;
+        const recipeId = recipeIds.get(r.id)!;
+        await tx.recipeNote.upsert({
+          where: { recipeId_userId: { recipeId, userId } },
+          create: { recipeId, userId, body: r.personalNote },
+          update: { body: r.personalNote }
+        });
+      }
+
+      const recipeId = (exportId: number) => {
+        const id = recipeIds.get(exportId);
+        if (id === undefined) {
+          throw new HttpError(400, `Invalid account export: unknown recipe id ${exportId}`);
+        }
+        return id;
+      };
+
+      for (const plan of data.mealPlans) {
+        const weekStart = parseDateParam(plan.weekStart);
+        const saved = await tx.mealPlan.upsert({
+          where: planWhereWeek(pool, weekStart),
+          create: { ...poolOwner(pool), weekStart, notes: plan.notes ?? null },
+          update: plan.notes ? { notes: plan.notes } : {},
+          select: { id: true }
+        });
+
+        for (const meal of plan.meals) {
+          const date = parseDateParam(meal.date);
+          await tx.plannedMeal.upsert({
+            where: { planId_date_slot: { planId: saved.id, date, slot: meal.slot } },
+            create: { planId: saved.id, date, slot: meal.slot, recipeId: recipeId(meal.recipeId), note: meal.note ?? null },
+            update: { recipeId: recipeId(meal.recipeId), note: meal.note ?? null }
+          });
+          report.plannedMeals++;
+        }
+      }
+
+      for (const event of data.cookEvents) {
+        // Whoever logged it: a household export carries every member's cooking.
+        const where = { recipeId: recipeId(event.recipeId), cookedAt: parseDateParam(event.cookedAt), createdAt: event.createdAt };
+        if (await tx.cookEvent.findFirst({ where, select: { id: true } })) {
+          report.cookEvents.skipped++;
+          continue;
+        }
+        await tx.cookEvent.create({ data: { ...where, userId, rating: event.rating ?? null, comment: event.comment ?? null } });
+        report.cookEvents.created++;
+      }
+
+      for (const list of data.shoppingLists) {
+        if (await tx.shoppingList.findFirst({ where: { userId, name: list.name, createdAt: list.createdAt }, select: { id: true } })) {
+          report.shoppingLists.skipped++;
+          continue;
+        }
+
+        // List sources reference recipes by id; point them at the imported rows.
+        const sources = Array.isArray(list.sources)
+          ? list.sources.map((s) => {
+              const source = s as { recipeId?: unknown };
+              return typeof source.recipeId === 'number' && recipeIds.has(source.recipeId)
+                ? { ...source, recipeId: recipeIds.get(source.recipeId) }
+                : source;
+            })
+          : list.sources;
+
+        await tx.shoppingList.create({
+          data: {
+            userId,
+            name: list.name,
+            weekStart: list.weekStart ? parseDateParam(list.weekStart) : null,
+            sources: jsonValue(sources),
+            createdAt: list.createdAt,
+            items: {
+              create: list.items.map((i) => ({ ...i, sources: jsonValue(i.sources) }))
+            }
+          }
+        });
+        report.shoppingLists.created++;
+      }
+    },
+    { timeout: 120_000 }
+  );
+
+  await enqueueNewRecipes(pending);
+  syncRecipeImagesLater(withImages, bundledImages);
+  return report;
+}
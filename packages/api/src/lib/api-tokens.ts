@@ -0,0 +1,87 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+import { prisma } from './db.js';
+
+/**
+ * What a personal API token may touch: read or write access per area of the
+ * app. Write implies read. Account, household and sign-in routes never accept
+ * a token, so a leaked one can't be used to mint more or take over the account.
+ */
+export const API_TOKEN_AREAS = ['recipes', 'plans', 'shopping', 'pantry'] as const;
+export type ApiTokenArea = (typeof API_TOKEN_AREAS)[number];
+export type ApiTokenScope = `${ApiTokenArea}:${'read' | 'write'}`;
+export const API_TOKEN_SCOPES = API_TOKEN_AREAS.flatMap((area) => [`${area}:read`, `${area}:write`]) as ApiTokenScope[];
+
+// Prefixed so the tokens are easy to spot in logs and for secret scanners.
+const TOKEN_PATTERN = /^mr_pat_(\d+)_([A-Za-z0-9_-]{20,})$/;
+// lastUsedAt is only rewritten once it is older than this.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+export function tokenAllows(scopes: ApiTokenScope[], area: ApiTokenArea, write: boolean): boolean {
+  return scopes.includes(`${area}:write`) || (!write && scopes.includes(`${area}:read`));
+}
+
+/** Returns the token itself once; only a hash of its secret is stored. */
+export async function createApiToken(
+  userId: number,
+  input: { name: string; scopes: ApiTokenScope[]; expiresAt: Date | null }
+) {
+  const secret = randomBytes(32).toString('base64url');
+  const row = await prisma.apiToken.create({
+    data: {
+      userId,
+      name: input.name,
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+      secretHash: hashSecret(secret).toString('hex')
+    },
+    select: { id: true, name: true, scopes: true, createdAt: true, expiresAt: true, lastUsedAt: true }
+  });
+  return { apiToken: row, token: `mr_pat_${row.id}_${secret}` };
+}
+
+export async function listApiTokens(userId: number) {
+  return prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, name: true, scopes: true, createdAt: true, expiresAt: true, lastUsedAt: true }
+  });
+}
+
+export type ActiveApiToken = {
+  id: number;
+  userId: number;
+  scopes: ApiTokenScope[];
+};
+
+/** The token behind an `Authorization: Bearer` value, or null when it is malformed, unknown, expired or revoked. */
+export async function apiTokenFromBearer(value: string): Promise<ActiveApiToken | null> {
+  const match = TOKEN_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const id = Number.parseInt(match[1]!, 10);
+  const token = await prisma.apiToken.findUnique({
+    where: { id },
+    select: { id: true, userId: true, scopes: true, secretHash: true, expiresAt: true, lastUsedAt: true }
+  });
+  const now = new Date();
+  if (
+    !token ||
+    (token.expiresAt && token.expiresAt <= now) ||
+    !timingSafeEqual(Buffer.from(token.secretHash, 'hex'), hashSecret(match[2]!))
+  ) {
+    return null;
+  }
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({ where: { id: token.id }, data: { lastUsedAt: now } });
+  }
+
+  return { id: token.id, userId: token.userId, scopes: token.scopes as ApiTokenScope[] };
+}
@@ -0,0 +1,11 @@
+// Where the web app is served. Links in emails and the SSO callback point here;
+// the API itself is reached through the app's /api proxy.
+const APP_URL = process.env.APP_URL ?? 'http://localhost:5173';
+
+export function appLink(params: Record<string, string> = {}, path = '/'): string {
+  const url = new URL(path, APP_URL);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
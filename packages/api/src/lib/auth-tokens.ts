@@ -0,0 +1,81 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+import type { AuthTokenPurpose } from '@prisma/client';
+
+import { checkTokenSignature, signTokenPayload } from './auth.js';
+import { prisma } from './db.js';
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 3 * 24 * 60 * 60 * 1000
+};
+
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+// The purpose is signed in but not sent, so a verification link can't be replayed as a reset.
+function payloadFor(purpose: AuthTokenPurpose, id: number, secret: string): string {
+  return `${purpose}.${id}.${secret}`;
+}
+
+/**
+ * A fresh token for the link in an email: `<id>.<secret>.<signature>`. Any
+ * earlier unused token of the same purpose stops working.
+ */
+export async function createAuthToken(userId: number, purpose: AuthTokenPurpose): Promise<string> {
+  const secret = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  await prisma.authToken.deleteMany({ where: { userId, purpose, usedAt: null } });
+  const token = await prisma.authToken.create({
+    data: {
+      userId,
+      purpose,
+      secretHash: hashSecret(secret).toString('hex'),
+      expiresAt: new Date(now.getTime() + TOKEN_TTL_MS[purpose])
+    },
+    select: { id: true }
+  });
+
+  return `${token.id}.${secret}.${signTokenPayload(payloadFor(purpose, token.id, secret))}`;
+}
+
+/**
+ * Marks the token used and returns its user, or null when it is malformed,
+ * forged, expired or already used.
+ */
+export async function consumeAuthToken(raw: string, purpose: AuthTokenPurpose): Promise<number | null> {
+  const [idRaw, secret, signature] = raw.split('.');
+  const id = Number.parseInt(idRaw ?? '', 10);
+  if (!Number.isInteger(id) || id < 1 || !secret || !signature) {
+    return null;
+  }
+  if (!checkTokenSignature(payloadFor(purpose, id, secret), signature)) {
+    return null;
+  }
+
+  const token = await prisma.authToken.findUnique({
+    where: { id },
+    select: { userId: true, purpose: true, secretHash: true }
+  });
+  if (!token || token.purpose !== purpose || !timingSafeEqual(Buffer.from(token.secretHash, 'hex'), hashSecret(secret))) {
+    return null;
+  }
+
+  // Claimed with a conditional update so two requests can't both use it.
+  const claimed = await prisma.authToken.updateMany({
+    where: { id, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() }
+  });
+  return claimed.count === 1 ? token.userId : null;
+}
+
+// Whether a token of this purpose was sent so recently that another email would just be noise.
+export async function recentlySentAuthToken(userId: number, purpose: AuthTokenPurpose, withinMs: number): Promise<boolean> {
+  const recent = await prisma.authToken.findFirst({
+    where: { userId, purpose, usedAt: null, createdAt: { gt: new Date(Date.now() - withinMs) } },
+    select: { id: true }
+  });
+  return !!recent;
+}
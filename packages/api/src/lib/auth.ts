@@ -6,11 +6,20 @@ import type { Request } from 'express';
 const scrypt = promisify(scryptCallback);
 
 const SESSION_COOKIE_NAME = 'mr_session';
-const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+// Holds the state of an SSO sign-in between the redirect to the issuer and the callback.
+const OIDC_FLOW_COOKIE_NAME = 'mr_oidc';
+const OIDC_FLOW_TTL_SECONDS = 10 * 60;
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30;
 const SESSION_SECRET = process.env.SESSION_SECRET ?? 'dev-session-secret-change-me';
-
-function sign(payload: string): string {
-  return createHmac('sha256', SESSION_SECRET).update(payload).digest('base64url');
+// Comma-separated secrets that were in use before the current one. Cookies signed
+// with them are still accepted and get re-signed, so rotating doesn't sign anyone out.
+const PREVIOUS_SESSION_SECRETS = (process.env.SESSION_SECRET_PREVIOUS ?? '')
+  .split(',')
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+function sign(payload: string, secret = SESSION_SECRET): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
 }
 
 function safeStringEquals(left: string, right: string): boolean {
@@ -47,35 +56,55 @@ export async function verifyPassword(password: string, encodedHash: string): Pro
   return timingSafeEqual(storedHash, candidateHash);
 }
 
-export function createSessionToken(userId: number, now = Date.now()): string {
-  const expiresAt = now + SESSION_TTL_SECONDS * 1000;
-  const payload = `${userId}.${expiresAt}`;
-  const signature = sign(payload);
-
-  return `${payload}.${signature}`;
+/**
+ * Cookie value for a stored session: its id and the secret whose hash the
+ * Session row holds, signed so forged cookies are turned away before any lookup.
+ */
+export function createSessionToken(sessionId: number, secret: string): string {
+  const payload = `${sessionId}.${secret}`;
+  return `${payload}.${sign(payload)}`;
 }
 
-export function parseSessionToken(token: string, now = Date.now()): { userId: number } | null {
-  const [userIdRaw, expiresAtRaw, signature] = token.split('.');
-  if (!userIdRaw || !expiresAtRaw || !signature) {
+export type SessionToken = {
+  sessionId: number;
+  secret: string;
+  // Signed with a previous SESSION_SECRET; worth re-issuing.
+  stale: boolean;
+};
+
+export function parseSessionToken(token: string): SessionToken | null {
+  const [sessionIdRaw, secret, signature] = token.split('.');
+  if (!sessionIdRaw || !secret || !signature) {
     return null;
   }
 
-  const userId = Number.parseInt(userIdRaw, 10);
-  const expiresAt = Number.parseInt(expiresAtRaw, 10);
-
-  if (!Number.isInteger(userId) || userId < 1 || !Number.isInteger(expiresAt) || expiresAt < now) {
+  const sessionId = Number.parseInt(sessionIdRaw, 10);
+  if (!Number.isInteger(sessionId) || sessionId < 1) {
     return null;
   }
 
-  const payload = `${userId}.${expiresAt}`;
-  const expectedSignature = sign(payload);
-
-  if (!safeStringEquals(signature, expectedSignature)) {
-    return null;
+  const payload = `${sessionId}.${secret}`;
+  if (safeStringEquals(signature, sign(payload))) {
+    return { sessionId, secret, stale: false };
+  }
+  if (PREVIOUS_SESSION_SECRETS.some((previous) => safeStringEquals(signature, sign(payload, previous)))) {
+    return { sessionId, secret, stale: true };
   }
 
-  return { userId };
+  return null;
+}
+
+/**
+ * Signature for a one-off token sent by email (password reset, email
+ * verification). Checked against previous secrets too, so rotating
+ * SESSION_SECRET doesn't break links already sent.
+ */
+export function signTokenPayload(payload: string): string {
+  return sign(payload);
+}
+
+export function checkTokenSignature(payload: string, signature: string): boolean {
+  return [SESSION_SECRET, ...PREVIOUS_SESSION_SECRETS].some((secret) => safeStringEquals(signature, sign(payload, secret)));
 }
 
 export function parseCookieHeader(cookieHeader?: string): Record<string, string> {
@@ -130,7 +159,7 @@ export function serializeClearedSessionCookie(): string {
   ].join('; ');
 }
 
-export function sessionFromRequest(req: Request): { userId: number } | null {
+export function sessionFromRequest(req: Request): SessionToken | null {
   const cookies = parseCookieHeader(req.headers.cookie);
   const rawToken = cookies[SESSION_COOKIE_NAME];
 
@@ -141,3 +170,18 @@ export function sessionFromRequest(req: Request): { userId: number } | null {
   return parseSessionToken(rawToken);
 }
 
+export function serializeOidcFlowCookie(value: string): string {
+  return [
+    `${OIDC_FLOW_COOKIE_NAME}=${encodeURIComponent(value)}`,
+    ...baseCookieAttributes(),
+    `Max-Age=${OIDC_FLOW_TTL_SECONDS}`
+  ].join('; ');
+}
+
+export function serializeClearedOidcFlowCookie(): string {
+  return [`${OIDC_FLOW_COOKIE_NAME}=`, ...baseCookieAttributes(), 'Max-Age=0'].join('; ');
+}
+
+export function oidcFlowFromRequest(req: Request): string | null {
+  return parseCookieHeader(req.headers.cookie)[OIDC_FLOW_COOKIE_NAME] ?? null;
+}
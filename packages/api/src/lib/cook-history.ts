@@ -0,0 +1,32 @@
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { cookEventsInPool } from './households.js';
+
+export type CookStats = {
+  lastCookedAt: Date | null;
+  timesCooked: number;
+};
+
+export async function cookStatsByRecipe(pool: Pool, recipeIds?: number[]): Promise<Map<number, CookStats>> {
+  const grouped = await prisma.cookEvent.groupBy({
+    by: ['recipeId'],
+    where: {
+      ...cookEventsInPool(pool),
+      ...(recipeIds ? { recipeId: { in: recipeIds } } : {})
+    },
+    _max: { cookedAt: true },
+    _count: { _all: true }
+  });
+
+  return new Map(
+    grouped.map((g) => [g.recipeId, { lastCookedAt: g._max.cookedAt, timesCooked: g._count._all }])
+  );
+}
+
+export function withCookStats<T extends { id: number }>(recipe: T, stats: Map<number, CookStats>): T & CookStats {
+  return {
+    ...recipe,
+    lastCookedAt: stats.get(recipe.id)?.lastCookedAt ?? null,
+    timesCooked: stats.get(recipe.id)?.timesCooked ?? 0
+  };
+}
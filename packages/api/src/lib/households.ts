@@ -0,0 +1,173 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+import type { HouseholdRole, Prisma } from '@prisma/client';
+
+import { prisma } from './db.js';
+import { HttpError } from './http-error.js';
+
+export const INVITE_TTL_DAYS = 7;
+
+/**
+ * Whose recipes, tags and meal plans a request works with: the household's
+ * shared pool when the user belongs to one, otherwise the user's own.
+ */
+export type Pool = {
+  userId: number;
+  householdId: number | null;
+  // Null outside a household, where the user can change everything.
+  role: HouseholdRole | null;
+};
+
+export function personalPool(userId: number): Pool {
+  return { userId, householdId: null, role: null };
+}
+
+export async function loadPool(userId: number): Promise<Pool> {
+  const member = await prisma.householdMember.findUnique({
+    where: { userId },
+    select: { householdId: true, role: true }
+  });
+  return member ? { userId, householdId: member.householdId, role: member.role } : personalPool(userId);
+}
+
+// Viewers can browse the pool, log what they cooked and keep personal notes, but not change anything shared.
+export function requireEditor(pool: Pool): void {
+  if (pool.role === 'viewer') {
+    throw new HttpError(403, 'Viewers can’t change the household’s recipes or plan');
+  }
+}
+
+export function recipesInPool(pool: Pool): Prisma.RecipeWhereInput {
+  return pool.householdId ? { householdId: pool.householdId } : { userId: pool.userId, householdId: null };
+}
+
+// Owner columns of a recipe added to the pool; userId always records who added it.
+export function recipeOwner(pool: Pool) {
+  return { userId: pool.userId, householdId: pool.householdId };
+}
+
+export function plansInPool(pool: Pool): Prisma.MealPlanWhereInput {
+  return pool.householdId ? { householdId: pool.householdId } : { userId: pool.userId };
+}
+
+export function tagsInPool(pool: Pool): Prisma.TagWhereInput {
+  return pool.householdId ? { householdId: pool.householdId } : { userId: pool.userId };
+}
+
+// Owner columns of a plan or tag created in the pool.
+export function poolOwner(pool: Pool): { userId: number } | { householdId: number } {
+  return pool.householdId ? { householdId: pool.householdId } : { userId: pool.userId };
+}
+
+// Everyone's cooking counts in a household, so the rotation doesn't suggest what a partner made yesterday.
+export function cookEventsInPool(pool: Pool): Prisma.CookEventWhereInput {
+  return pool.householdId ? { recipe: { householdId: pool.householdId } } : { userId: pool.userId };
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function createInviteToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * Fold a user's personal pool into the household they just joined. Tags and
+ * recipes already in the household (same tag name, same source URL) are merged
+ * rather than duplicated: the household's copy stays and picks up the user's
+ * cook history, plan entries, tags and notes. Where both planned the same meal
+ * slot, the household's plan wins.
+ */
+export async function mergePoolIntoHousehold(tx: Tx, userId: number, householdId: number): Promise<void> {
+  const [myTags, theirTags] = await Promise.all([
+    tx.tag.findMany({ where: { userId }, select: { id: true, key: true } }),
+    tx.tag.findMany({ where: { householdId }, select: { id: true, key: true } })
+  ]);
+  const theirTagIds = new Map(theirTags.map((t) => [t.key, t.id]));
+  for (const tag of myTags) {
+    const theirs = theirTagIds.get(tag.key);
+    if (theirs === undefined) {
+      await tx.tag.update({ where: { id: tag.id }, data: { userId: null, householdId } });
+      continue;
+    }
+    const links = await tx.recipeTag.findMany({ where: { tagId: tag.id }, select: { recipeId: true } });
+    await tx.recipeTag.createMany({
+      data: links.map((l) => ({ recipeId: l.recipeId, tagId: theirs })),
+      skipDuplicates: true
+    });
+    await tx.tag.delete({ where: { id: tag.id } });
+  }
+
+  const mine = await tx.recipe.findMany({
+    where: { userId, householdId: null },
+    select: { id: true, sourceUrl: true, notes: true }
+  });
+  const urls = mine.map((r) => r.sourceUrl).filter((u): u is string => !!u);
+  const theirs = await tx.recipe.findMany({
+    where: { householdId, sourceUrl: { in: urls } },
+    select: { id: true, sourceUrl: true }
+  });
+  const theirIds = new Map(theirs.map((r) => [r.sourceUrl!, r.id]));
+
+  const moved: number[] = [];
+  for (const recipe of mine) {
+    const keep = recipe.sourceUrl ? theirIds.get(recipe.sourceUrl) : undefined;
+    if (keep === undefined) {
+      moved.push(recipe.id);
+      continue;
+    }
+    await tx.cookEvent.updateMany({ where: { recipeId: recipe.id }, data: { recipeId: keep } });
+    await tx.plannedMeal.updateMany({ where: { recipeId: recipe.id }, data: { recipeId: keep } });
+    const links = await tx.recipeTag.findMany({ where: { recipeId: recipe.id }, select: { tagId: true } });
+    await tx.recipeTag.createMany({
+      data: links.map((l) => ({ recipeId: keep, tagId: l.tagId })),
+      skipDuplicates: true
+    });
+    // The user's own notes on their copy live on as a personal note on the household's.
+    const note = await tx.recipeNote.findUnique({ where: { recipeId_userId: { recipeId: recipe.id, userId } } });
+    const body = [recipe.notes, note?.body].filter(Boolean).join('\n\n');
+    if (body) {
+      await tx.recipeNote.create({ data: { recipeId: keep, userId, body } });
+    }
+    await tx.recipe.delete({ where: { id: recipe.id } });
+  }
+  await tx.recipe.updateMany({ where: { id: { in: moved } }, data: { householdId } });
+
+  const [myPlans, theirPlans] = await Promise.all([
+    tx.mealPlan.findMany({ where: { userId }, select: { id: true, weekStart: true, notes: true } }),
+    tx.mealPlan.findMany({
+      where: { householdId },
+      select: { id: true, weekStart: true, notes: true, meals: { select: { date: true, slot: true } } }
+    })
+  ]);
+  const theirPlansByWeek = new Map(theirPlans.map((p) => [p.weekStart.getTime(), p]));
+  for (const plan of myPlans) {
+    const target = theirPlansByWeek.get(plan.weekStart.getTime());
+    if (!target) {
+      await tx.mealPlan.update({ where: { id: plan.id }, data: { userId: null, householdId } });
+      continue;
+    }
+    const taken = new Set(target.meals.map((m) => `${m.date.getTime()}:${m.slot}`));
+    const meals = await tx.plannedMeal.findMany({ where: { planId: plan.id }, select: { id: true, date: true, slot: true } });
+    const free = meals.filter((m) => !taken.has(`${m.date.getTime()}:${m.slot}`));
+    await tx.plannedMeal.updateMany({ where: { id: { in: free.map((m) => m.id) } }, data: { planId: target.id } });
+    if (!target.notes && plan.notes) {
+      await tx.mealPlan.update({ where: { id: target.id }, data: { notes: plan.notes } });
+    }
+    await tx.mealPlan.delete({ where: { id: plan.id } });
+  }
+}
+
+/**
+ * The last member is leaving: hand the whole pool back to them as their
+ * personal one, then remove the household.
+ */
+export async function dissolveHousehold(tx: Tx, householdId: number, userId: number): Promise<void> {
+  await tx.recipe.updateMany({ where: { householdId }, data: { userId, householdId: null } });
+  await tx.tag.updateMany({ where: { householdId }, data: { userId, householdId: null } });
+  await tx.mealPlan.updateMany({ where: { householdId }, data: { userId, householdId: null } });
+  await tx.household.delete({ where: { id: householdId } });
+}
@@ -0,0 +1,76 @@
+import { prisma } from './db.js';
+import { HttpError } from './http-error.js';
+import type { OidcClaims } from './oidc.js';
+import { ensureUserDefaults } from './user-defaults.js';
+
+// Set to "false" to only let existing accounts sign in through SSO.
+const OIDC_ALLOW_SIGNUP = process.env.OIDC_ALLOW_SIGNUP !== 'false';
+
+/**
+ * The user an SSO sign-in belongs to. A known identity signs in as its user;
+ * when linking, the identity is attached to the signed-in user. Otherwise a
+ * verified email matching an existing account links to it (the issuer vouches
+ * for the address), and failing that a new account is created.
+ */
+export async function resolveOidcUser(claims: OidcClaims, linkUserId: number | null): Promise<number> {
+  const identity = await prisma.userIdentity.findUnique({
+    where: { issuer_subject: { issuer: claims.iss, subject: claims.sub } },
+    select: { id: true, userId: true }
+  });
+
+  if (linkUserId) {
+    if (identity && identity.userId !== linkUserId) {
+      throw new HttpError(409, 'That account already signs in to another Meal Rotation user');
+    }
+    if (!identity) {
+      await prisma.userIdentity.create({
+        data: { userId: linkUserId, issuer: claims.iss, subject: claims.sub, email: claims.email ?? null }
+      });
+    }
+    return linkUserId;
+  }
+
+  if (identity) {
+    await prisma.userIdentity.update({ where: { id: identity.id }, data: { email: claims.email ?? null } });
+    return identity.userId;
+  }
+
+  if (!claims.email || !claims.email_verified) {
+    throw new HttpError(403, 'Your identity provider didn’t share a verified email address');
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email: claims.email }, select: { id: true } });
+  if (existing) {
+    await prisma.$transaction([
+      prisma.userIdentity.create({
+        data: { userId: existing.id, issuer: claims.iss, subject: claims.sub, email: claims.email }
+      }),
+      prisma.user.updateMany({ where: { id: existing.id, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } })
+    ]);
+    return existing.id;
+  }
+
+  if (!OIDC_ALLOW_SIGNUP) {
+    throw new HttpError(403, `There is no account for ${claims.email}`);
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: claims.email,
+      passwordHash: null,
+      emailVerifiedAt: new Date(),
+      identities: { create: { issuer: claims.iss, subject: claims.sub, email: claims.email } }
+    },
+    select: { id: true }
+  });
+  await ensureUserDefaults(user.id);
+  return user.id;
+}
+
+export async function listIdentities(userId: number) {
+  return prisma.userIdentity.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, createdAt: true, issuer: true, email: true }
+  });
+}
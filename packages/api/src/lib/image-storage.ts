@@ -0,0 +1,55 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Where cached recipe images live, addressed by keys like "<storageKey>/list.webp".
+ * The default keeps them on the local filesystem; anything with the same three
+ * operations (an object store, say) plugs in via setImageStorage.
+ */
+export interface ImageStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  // Null when nothing is stored under the key.
+  get(key: string): Promise<Buffer | null>;
+  // Removes every object under the prefix; missing ones are fine.
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export function createFileImageStorage(root: string): ImageStorage {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    // Keys are generated here, but keep a bad one from ever escaping the root.
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+    async deletePrefix(prefix) {
+      await rm(resolve(prefix), { recursive: true, force: true });
+    }
+  };
+}
+
+let storage: ImageStorage = createFileImageStorage(process.env.IMAGE_DIR ?? 'data/images');
+
+export function setImageStorage(next: ImageStorage): void {
+  storage = next;
+}
+
+export function imageStorage(): ImageStorage {
+  return storage;
+}
@@ -0,0 +1,105 @@
+import { parseFirstNumber } from '@meal-rotation/ingredients';
+import { gunzipSync, unzipSync } from 'fflate';
+import type { Unzipped } from 'fflate';
+
+import type { ExtractedFields } from '../scrape.js';
+
+// One recipe read from another app's export, ready to become a Recipe row.
+export type ImportedRecipe = ExtractedFields & {
+  title: string;
+  sourceUrl?: string;
+  notes?: string;
+  tags?: string[];
+};
+
+export class ImportFormatError extends Error {}
+
+// fflate inflates each entry into a buffer of its declared size (and stops there),
+// so checking declared sizes bounds the memory an archive can take.
+const MAX_ARCHIVE_ENTRIES = 10_000;
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+// Shared by every archive unpacked for one upload, nested ones included.
+export type UnpackBudget = { entries: number; bytes: number };
+
+export function createUnpackBudget(): UnpackBudget {
+  return { entries: 0, bytes: 0 };
+}
+
+function spend(budget: UnpackBudget, bytes: number) {
+  if (bytes > MAX_ENTRY_BYTES || (budget.bytes += bytes) > MAX_UNPACKED_BYTES) {
+    throw new ImportFormatError('The archive is too large once unpacked');
+  }
+}
+
+/** unzipSync that keeps only the entries `keep` accepts, within the budget. */
+export function unzipLimited(data: Uint8Array, budget: UnpackBudget, keep: (name: string) => boolean = () => true): Unzipped {
+  return unzipSync(data, {
+    filter: (file) => {
+      if (++budget.entries > MAX_ARCHIVE_ENTRIES) {
+        throw new ImportFormatError(`The archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+      }
+      if (!keep(file.name)) return false;
+      spend(budget, file.originalSize);
+      return true;
+    }
+  });
+}
+
+export function gunzipLimited(data: Uint8Array, budget: UnpackBudget): Uint8Array {
+  // The size trailer (mod 2^32) is what gunzipSync allocates and stops at.
+  spend(budget, data.length >= 4 ? new DataView(data.buffer, data.byteOffset + data.length - 4).getUint32(0, true) : 0);
+  return gunzipSync(data);
+}
+
+export function text(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.replace(/\r\n/g, '\n').trim();
+  return trimmed || undefined;
+}
+
+// Exports store lists as one text blob; blank lines and stray whitespace carry no meaning.
+export function lines(value: unknown): string[] | undefined {
+  const out = (text(value) ?? '')
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return out.length ? out : undefined;
+}
+
+export function names(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const out = value
+    .map((v) => (typeof v === 'string' ? v : typeof v === 'object' && v ? (v as Record<string, unknown>)['name'] : undefined))
+    .map(text)
+    .filter((v): v is string => !!v);
+  return out.length ? [...new Set(out)] : undefined;
+}
+
+export function httpUrl(value: unknown): string | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+  try {
+    const url = new URL(raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function servingsFromText(value: unknown): Pick<ImportedRecipe, 'servings' | 'servingsText'> {
+  const servingsText = text(value);
+  return servingsText ? { servingsText, servings: parseFirstNumber(servingsText) } : {};
+}
+
+export function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
+
+// Like the scraper: when no total is given, prep + cook is what a reader would add up.
+export function totalMinutes(total: number | undefined, prep: number | undefined, cook: number | undefined): number | undefined {
+  if (total !== undefined) return total;
+  return prep !== undefined || cook !== undefined ? (prep ?? 0) + (cook ?? 0) : undefined;
+}
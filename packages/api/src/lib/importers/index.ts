@@ -0,0 +1,144 @@
+import { parseIngredients } from '@meal-rotation/ingredients';
+import type { Prisma } from '@prisma/client';
+import { strFromU8 } from 'fflate';
+
+import type { Pool } from '../households.js';
+import { recipeOwner } from '../households.js';
+import { EDITABLE_FIELDS } from '../recipe-scrape.js';
+import { connectTags } from '../tags.js';
+
+import { ImportFormatError, asRecord, createUnpackBudget, gunzipLimited, unzipLimited } from './common.js';
+import type { ImportedRecipe, UnpackBudget } from './common.js';
+import { fromMealie, isMealieRecipe } from './mealie.js';
+import { fromPaprika, isPaprikaArchive, readPaprikaArchive } from './paprika.js';
+import { fromSchemaOrg } from './schema-org.js';
+import { fromTandoor, isTandoorArchive, isTandoorRecipe, readTandoorArchive } from './tandoor.js';
+
+export { ImportFormatError } from './common.js';
+export type { ImportedRecipe } from './common.js';
+
+export const IMPORT_FORMATS = ['paprika', 'mealie', 'tandoor', 'schema-org'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+function isZip(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+function isGzip(data: Uint8Array): boolean {
+  return data[0] === 0x1f && data[1] === 0x8b;
+}
+
+function zipEntryNames(data: Uint8Array, budget: UnpackBudget): string[] {
+  const fileNames: string[] = [];
+  unzipLimited(data, budget, (name) => {
+    fileNames.push(name);
+    return false;
+  });
+  return fileNames;
+}
+
+function detectJsonFormat(json: unknown): ImportFormat {
+  const first = asRecord(Array.isArray(json) ? json[0] : json);
+  if (first && isTandoorRecipe(first)) return 'tandoor';
+  if (first && isMealieRecipe(first)) return 'mealie';
+  return 'schema-org';
+}
+
+function readJson(json: unknown, format: ImportFormat): ImportedRecipe[] {
+  const items = Array.isArray(json) ? json : [json];
+  switch (format) {
+    case 'mealie':
+      return items.map(asRecord).filter((r) => !!r).map(fromMealie);
+    case 'tandoor':
+      return items.map(asRecord).filter((r) => !!r).map(fromTandoor);
+    case 'schema-org':
+      return fromSchemaOrg(json);
+    case 'paprika':
+      throw new ImportFormatError('Paprika exports are .paprikarecipes archives, not JSON');
+  }
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ImportFormatError('Not a recognised recipe export (expected a zip archive or JSON)');
+  }
+}
+
+/**
+ * Read recipes from an uploaded export. The format is sniffed from the file
+ * unless given: zip archives (Paprika, Tandoor), a single gzipped Paprika
+ * recipe, or JSON (Mealie, Tandoor, or schema.org Recipe objects).
+ */
+export function readRecipeExport(data: Uint8Array, format?: ImportFormat): { format: ImportFormat; recipes: ImportedRecipe[] } {
+  let recipes: ImportedRecipe[];
+  const budget = createUnpackBudget();
+
+  if (isZip(data)) {
+    const fileNames = zipEntryNames(data, budget);
+    // The read below counts the same entries again.
+    budget.entries = 0;
+    const detected = format ?? (isPaprikaArchive(fileNames) ? 'paprika' : isTandoorArchive(fileNames) ? 'tandoor' : undefined);
+    if (detected === 'paprika') {
+      recipes = readPaprikaArchive(data, budget);
+    } else if (detected === 'tandoor') {
+      recipes = readTandoorArchive(data, budget);
+    } else {
+      throw new ImportFormatError('Unrecognised archive; expected a Paprika or Tandoor export');
+    }
+    format = detected;
+  } else if (isGzip(data)) {
+    // A single .paprikarecipe file.
+    const json = asRecord(parseJson(strFromU8(gunzipLimited(data, budget))));
+    format = 'paprika';
+    recipes = json ? [fromPaprika(json)] : [];
+  } else {
+    const json = parseJson(strFromU8(data));
+    format = format ?? detectJsonFormat(json);
+    recipes = readJson(json, format);
+  }
+
+  if (!recipes.length) {
+    throw new ImportFormatError('No recipes found in the file');
+  }
+  return { format, recipes };
+}
+
+/**
+ * Recipe row for an imported recipe. What came from the other app is the
+ * user's own curated copy, so every field present is marked as edited by hand
+ * and a later rescrape of the source URL won't overwrite it.
+ */
+export function importedRecipeData(pool: Pool, recipe: ImportedRecipe): Prisma.RecipeUncheckedCreateInput {
+  const manualFields = EDITABLE_FIELDS.filter((field) => recipe[field] !== undefined && recipe[field] !== null);
+  const tags = recipe.tags?.map((t) => t.slice(0, 32)).slice(0, 25);
+
+  return {
+    ...recipeOwner(pool),
+    title: recipe.title.slice(0, 180),
+    description: recipe.description,
+    sourceUrl: recipe.sourceUrl,
+    sourceHost: recipe.sourceUrl ? new URL(recipe.sourceUrl).hostname : undefined,
+    imageUrl: recipe.imageUrl,
+    servings: recipe.servings,
+    servingsText: recipe.servingsText,
+    ingredients: recipe.ingredients,
+    ingredientsParsed: recipe.ingredients ? parseIngredients(recipe.ingredients) : undefined,
+    instructions: recipe.instructions,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    totalMinutes: recipe.totalMinutes,
+    cuisine: recipe.cuisine,
+    category: recipe.category,
+    keywords: recipe.keywords,
+    nutrition: recipe.nutrition,
+    author: recipe.author,
+    ratingValue: recipe.ratingValue,
+    ratingCount: recipe.ratingCount,
+    notes: recipe.notes,
+    tags: tags?.length ? connectTags(pool, tags) : undefined,
+    scrapeStatus: 'ok',
+    manualFields: recipe.sourceUrl && manualFields.length ? manualFields : undefined
+  };
+}
@@ -0,0 +1,67 @@
+import { formatQuantity } from '@meal-rotation/ingredients';
+
+import { parseDurationMinutes } from '../scrape.js';
+import { asRecord, httpUrl, names, servingsFromText, text, totalMinutes } from './common.js';
+import type { ImportedRecipe } from './common.js';
+
+function ingredientLine(value: unknown): string | undefined {
+  // Older Mealie versions store plain strings.
+  if (typeof value === 'string') return text(value);
+
+  const ing = asRecord(value);
+  if (!ing) return undefined;
+
+  const given = text(ing['originalText']) ?? text(ing['display']);
+  if (given) return given;
+
+  const quantity = typeof ing['quantity'] === 'number' && ing['quantity'] > 0 ? formatQuantity(ing['quantity']) : undefined;
+  const parts = [quantity, text(asRecord(ing['unit'])?.['name']), text(asRecord(ing['food'])?.['name'])].filter(Boolean);
+  const note = text(ing['note']);
+  if (!parts.length) return note;
+  return note ? `${parts.join(' ')}, ${note}` : parts.join(' ');
+}
+
+function instructionLine(value: unknown): string | undefined {
+  if (typeof value === 'string') return text(value);
+  return text(asRecord(value)?.['text']);
+}
+
+function notesText(value: unknown): string | undefined {
+  if (!Array.isArray(value)) return text(value);
+  const out = value
+    .map(asRecord)
+    .map((n) => [text(n?.['title']), text(n?.['text'])].filter(Boolean).join(': '))
+    .filter(Boolean);
+  return out.length ? out.join('\n\n') : undefined;
+}
+
+export function isMealieRecipe(json: Record<string, unknown>): boolean {
+  return 'slug' in json && ('recipeIngredient' in json || 'recipeInstructions' in json);
+}
+
+export function fromMealie(json: Record<string, unknown>): ImportedRecipe {
+  const ingredients = Array.isArray(json['recipeIngredient'])
+    ? json['recipeIngredient'].map(ingredientLine).filter((l): l is string => !!l)
+    : [];
+  const instructions = Array.isArray(json['recipeInstructions'])
+    ? json['recipeInstructions'].map(instructionLine).filter((l): l is string => !!l)
+    : [];
+  const tags = [...(names(json['recipeCategory']) ?? []), ...(names(json['tags']) ?? [])];
+  const prepMinutes = parseDurationMinutes(json['prepTime']);
+  // Mealie calls cooking time "performTime".
+  const cookMinutes = parseDurationMinutes(json['performTime'] ?? json['cookTime']);
+
+  return {
+    title: text(json['name']) ?? 'Untitled recipe',
+    description: text(json['description']),
+    sourceUrl: httpUrl(json['orgURL']) ?? httpUrl(json['originalURL']),
+    ...servingsFromText(json['recipeYield'] ?? json['recipeServings']),
+    ingredients: ingredients.length ? ingredients : undefined,
+    instructions: instructions.length ? instructions : undefined,
+    prepMinutes,
+    cookMinutes,
+    totalMinutes: totalMinutes(parseDurationMinutes(json['totalTime']), prepMinutes, cookMinutes),
+    notes: notesText(json['notes']),
+    tags: tags.length ? [...new Set(tags)] : undefined
+  };
+}
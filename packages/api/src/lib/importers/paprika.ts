@@ -0,0 +1,50 @@
+import { strFromU8 } from 'fflate';
+
+import { parseDurationMinutes } from '../scrape.js';
+import { ImportFormatError, gunzipLimited, httpUrl, lines, names, servingsFromText, text, totalMinutes, unzipLimited } from './common.js';
+import type { ImportedRecipe, UnpackBudget } from './common.js';
+
+export function fromPaprika(json: Record<string, unknown>): ImportedRecipe {
+  const prepMinutes = parseDurationMinutes(json['prep_time']);
+  const cookMinutes = parseDurationMinutes(json['cook_time']);
+
+  return {
+    title: text(json['name']) ?? 'Untitled recipe',
+    description: text(json['description']),
+    sourceUrl: httpUrl(json['source_url']),
+    // Paprika also embeds the photo itself (photo_data); the original URL is all we keep.
+    imageUrl: httpUrl(json['image_url']),
+    ...servingsFromText(json['servings']),
+    ingredients: lines(json['ingredients']),
+    instructions: lines(json['directions']),
+    prepMinutes,
+    cookMinutes,
+    totalMinutes: totalMinutes(parseDurationMinutes(json['total_time']), prepMinutes, cookMinutes),
+    notes: text(json['notes']),
+    tags: names(json['categories'])
+  };
+}
+
+/**
+ * A .paprikarecipes export is a zip of .paprikarecipe entries, each a single
+ * gzipped JSON recipe.
+ */
+export function readPaprikaArchive(data: Uint8Array, budget: UnpackBudget): ImportedRecipe[] {
+  const entries = unzipLimited(data, budget, (name) => name.endsWith('.paprikarecipe'));
+  const recipes = Object.values(entries).map((entry) => {
+    const json: unknown = JSON.parse(strFromU8(gunzipLimited(entry, budget)));
+    if (typeof json !== 'object' || !json) {
+      throw new ImportFormatError('Unreadable Paprika recipe');
+    }
+    return fromPaprika(json as Record<string, unknown>);
+  });
+
+  if (!recipes.length) {
+    throw new ImportFormatError('No recipes found in Paprika archive');
+  }
+  return recipes;
+}
+
+export function isPaprikaArchive(fileNames: string[]): boolean {
+  return fileNames.some((name) => name.endsWith('.paprikarecipe'));
+}
@@ -0,0 +1,28 @@
+import { flattenJsonLd, fromJsonLd, isRecipeType } from '../scrape.js';
+import { asRecord, httpUrl, names, text } from './common.js';
+import type { ImportedRecipe } from './common.js';
+
+function pageUrl(node: Record<string, unknown>): string | undefined {
+  const page = node['mainEntityOfPage'];
+  return httpUrl(node['url']) ?? httpUrl(page) ?? httpUrl(asRecord(page)?.['@id']);
+}
+
+// Same mapping the scraper uses for JSON-LD on recipe pages.
+export function fromSchemaOrg(json: unknown): ImportedRecipe[] {
+  return flattenJsonLd(json)
+    .map(asRecord)
+    .filter((node): node is Record<string, unknown> => !!node && isRecipeType(node['@type']))
+    .map((node) => {
+      const sourceUrl = pageUrl(node);
+      const fields = fromJsonLd(node, new URL(sourceUrl ?? 'file:///'));
+      return {
+        ...fields,
+        title: fields.title ?? 'Untitled recipe',
+        sourceUrl,
+        // Relative image paths mean nothing without the page they came from.
+        imageUrl: httpUrl(fields.imageUrl),
+        tags: names(node['keywords']) ?? fields.keywords,
+        notes: text(node['comment'])
+      };
+    });
+}
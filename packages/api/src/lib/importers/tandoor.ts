@@ -0,0 +1,83 @@
+import { formatQuantity } from '@meal-rotation/ingredients';
+import { strFromU8 } from 'fflate';
+
+import { ImportFormatError, asRecord, httpUrl, names, text, totalMinutes, unzipLimited } from './common.js';
+import type { ImportedRecipe, UnpackBudget } from './common.js';
+
+function ingredientLine(value: unknown): string | undefined {
+  const ing = asRecord(value);
+  if (!ing) return undefined;
+
+  const given = text(ing['original_text']);
+  if (given) return given;
+
+  const amount = !ing['no_amount'] && typeof ing['amount'] === 'number' && ing['amount'] > 0 ? formatQuantity(ing['amount']) : undefined;
+  const parts = [amount, text(asRecord(ing['unit'])?.['name']), text(asRecord(ing['food'])?.['name'])].filter(Boolean);
+  const note = text(ing['note']);
+  if (!parts.length) return note;
+  return note ? `${parts.join(' ')}, ${note}` : parts.join(' ');
+}
+
+function minutes(value: unknown): number | undefined {
+  return typeof value === 'number' && value > 0 ? Math.round(value) : undefined;
+}
+
+export function isTandoorRecipe(json: Record<string, unknown>): boolean {
+  return Array.isArray(json['steps']) && 'working_time' in json;
+}
+
+export function fromTandoor(json: Record<string, unknown>): ImportedRecipe {
+  const steps = Array.isArray(json['steps']) ? json['steps'].map(asRecord).filter((s) => !!s) : [];
+  const ingredients = steps
+    .flatMap((step) => (Array.isArray(step['ingredients']) ? step['ingredients'] : []))
+    .map(ingredientLine)
+    .filter((l): l is string => !!l);
+  const instructions = steps.map((step) => text(step['instruction'])).filter((l): l is string => !!l);
+
+  // Tandoor's working time is hands-on prep; waiting time is oven/simmer time.
+  const prepMinutes = minutes(json['working_time']);
+  const cookMinutes = minutes(json['waiting_time']);
+  const servings = typeof json['servings'] === 'number' && json['servings'] > 0 ? json['servings'] : undefined;
+
+  return {
+    title: text(json['name']) ?? 'Untitled recipe',
+    description: text(json['description']),
+    sourceUrl: httpUrl(json['source_url']),
+    servings,
+    servingsText: servings ? [servings, text(json['servings_text'])].filter(Boolean).join(' ') : undefined,
+    ingredients: ingredients.length ? ingredients : undefined,
+    instructions: instructions.length ? instructions : undefined,
+    prepMinutes,
+    cookMinutes,
+    totalMinutes: totalMinutes(undefined, prepMinutes, cookMinutes),
+    tags: names(json['keywords'])
+  };
+}
+
+/**
+ * Tandoor's default export is a zip holding one zip per recipe, each with a
+ * recipe.json (and the photo, which isn't imported).
+ */
+export function readTandoorArchive(archive: Uint8Array, budget: UnpackBudget): ImportedRecipe[] {
+  const isRecipe = (name: string) => name.endsWith('recipe.json');
+  const entries = unzipLimited(archive, budget, (name) => name.endsWith('.zip') || isRecipe(name));
+  const recipes: ImportedRecipe[] = [];
+
+  for (const [name, data] of Object.entries(entries)) {
+    const files = name.endsWith('.zip') ? unzipLimited(data, budget, isRecipe) : { [name]: data };
+    for (const [fileName, file] of Object.entries(files)) {
+      if (!fileName.endsWith('recipe.json')) continue;
+      const json = asRecord(JSON.parse(strFromU8(file)));
+      if (json && isTandoorRecipe(json)) recipes.push(fromTandoor(json));
+    }
+  }
+
+  if (!recipes.length) {
+    throw new ImportFormatError('No recipes found in Tandoor archive');
+  }
+  return recipes;
+}
+
+export function isTandoorArchive(fileNames: string[]): boolean {
+  return fileNames.some((name) => name.endsWith('.zip') || name.endsWith('recipe.json'));
+}
@@ -0,0 +1,176 @@
+import type { FailedLoginReason } from '@prisma/client';
+import type { Request } from 'express';
+
+import { prisma } from './db.js';
+
+/**
+ * Failed sign-ins counted per client IP and per email address. After a few
+ * free attempts each further failure doubles the wait before the next try;
+ * past a hard limit the key is locked out for a while. Per-IP limits are
+ * looser since many people can share one address.
+ */
+type ThrottlePolicy = {
+  freeAttempts: number;
+  lockoutAfter: number;
+};
+
+const POLICIES = {
+  email: { freeAttempts: 3, lockoutAfter: 10 },
+  ip: { freeAttempts: 10, lockoutAfter: 50 }
+} satisfies Record<string, ThrottlePolicy>;
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 5 * 60_000;
+const LOCKOUT_MS = 15 * 60_000;
+// Counts are forgotten this long after the last failure (or the end of a lockout).
+const FORGET_AFTER_MS = 60 * 60_000;
+
+export type ThrottleEntry = {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+};
+
+/**
+ * Where failure counts live. The default keeps them in this process; a shared
+ * store (Redis etc.) is only needed when several API processes sit behind one
+ * address.
+ */
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleEntry | null>;
+  set(key: string, entry: ThrottleEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createMemoryThrottleStore(): ThrottleStore {
+  const entries = new Map<string, { entry: ThrottleEntry; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const hit = entries.get(key);
+      if (!hit) return null;
+      if (hit.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return hit.entry;
+    },
+    async set(key, entry, ttlMs) {
+      // Expired keys are otherwise only dropped when read again; sweep before a new one is added.
+      if (!entries.has(key)) {
+        const now = Date.now();
+        for (const [k, v] of entries) {
+          if (v.expiresAt <= now) entries.delete(k);
+        }
+      }
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+    },
+    async delete(key) {
+      entries.delete(key);
+    }
+  };
+}
+
+let store: ThrottleStore = createMemoryThrottleStore();
+
+export function setThrottleStore(next: ThrottleStore): void {
+  store = next;
+}
+
+function keys(ip: string, email: string): Array<[string, ThrottlePolicy]> {
+  return [
+    [`login:email:${email}`, POLICIES.email],
+    [`login:ip:${ip}`, POLICIES.ip]
+  ];
+}
+
+function waitMs(entry: ThrottleEntry, policy: ThrottlePolicy, now: number): number {
+  if (entry.lockedUntil && entry.lockedUntil > now) {
+    return entry.lockedUntil - now;
+  }
+  if (entry.failures < policy.freeAttempts) {
+    return 0;
+  }
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (entry.failures - policy.freeAttempts), MAX_DELAY_MS);
+  return Math.max(0, entry.lastFailureAt + delay - now);
+}
+
+// Read-modify-write of the counts runs one at a time, or parallel attempts would all read the same count.
+let queue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function ttlMs(lockedUntil: number | null, now: number): number {
+  return Math.max(lockedUntil ?? now, now) - now + FORGET_AFTER_MS;
+}
+
+async function retryAfterMs(ip: string, email: string, now: number): Promise<number> {
+  let wait = 0;
+  for (const [key, policy] of keys(ip, email)) {
+    const entry = await store.get(key);
+    if (entry) wait = Math.max(wait, waitMs(entry, policy, now));
+  }
+  return wait;
+}
+
+/**
+ * Start a sign-in attempt. Returns how long the client must wait before trying
+ * this email again, or 0 when it may go ahead; in that case the attempt is
+ * already counted as a failure, before the password is checked, so a burst of
+ * parallel requests can't all get past the check. recordLoginSuccess gives it back.
+ */
+export function beginLoginAttempt(ip: string, email: string, now = Date.now()): Promise<number> {
+  return serialized(async () => {
+    const wait = await retryAfterMs(ip, email, now);
+    if (wait === 0) {
+      await recordFailure(ip, email, now);
+    }
+    return wait;
+  });
+}
+
+async function recordFailure(ip: string, email: string, now: number): Promise<void> {
+  for (const [key, policy] of keys(ip, email)) {
+    const previous = await store.get(key);
+    const failures = (previous?.failures ?? 0) + 1;
+    // Once past the limit every further failure locks again, starting a fresh lockout.
+    const lockedUntil = failures >= policy.lockoutAfter ? now + LOCKOUT_MS : (previous?.lockedUntil ?? null);
+    await store.set(key, { failures, lastFailureAt: now, lockedUntil }, ttlMs(lockedUntil, now));
+  }
+}
+
+/**
+ * A correct password (or a password reset) clears the email's count. The IP
+ * only gets back the attempt begun with beginLoginAttempt; its earlier failures
+ * stay, so one valid account can't launder a stuffing run.
+ */
+export async function recordLoginSuccess(email: string, ip?: string): Promise<void> {
+  await store.delete(`login:email:${email}`);
+  if (ip === undefined) return;
+
+  const key = `login:ip:${ip}`;
+  await serialized(async () => {
+    const entry = await store.get(key);
+    if (entry && entry.failures > 1) {
+      await store.set(key, { ...entry, failures: entry.failures - 1 }, ttlMs(entry.lockedUntil, Date.now()));
+    } else if (entry) {
+      await store.delete(key);
+    }
+  });
+}
+
+export async function auditFailedLogin(req: Request, email: string, reason: FailedLoginReason, userId: number | null): Promise<void> {
+  await prisma.failedLogin.create({
+    data: {
+      email,
+      userId,
+      reason,
+      ip: req.ip ?? null,
+      userAgent: req.get('user-agent')?.slice(0, 300) ?? null
+    }
+  });
+}
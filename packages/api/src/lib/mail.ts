@@ -0,0 +1,71 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/**
+ * Where outgoing email goes. Local development uses the console or file
+ * transport; a real one (SMTP, an email API) plugs in via setMailTransport.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM ?? 'Meal Rotation <no-reply@localhost>';
+
+function render(message: MailMessage): string {
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text
+  ].join('\n');
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      // eslint-disable-next-line no-console
+      console.log(`--- mail ---\n${render(message)}\n--- end mail ---`);
+    }
+  };
+}
+
+// One .eml file per message, openable in any mail client.
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    async send(message) {
+      await mkdir(dir, { recursive: true });
+      const safeTo = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+      await writeFile(path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`), render(message));
+    }
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT ?? 'console') {
+    case 'console':
+      return createConsoleTransport();
+    case 'file':
+      return createFileTransport(process.env.MAIL_DIR ?? '.mail');
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${process.env.MAIL_TRANSPORT}`);
+  }
+}
+
+let transport: MailTransport = transportFromEnv();
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
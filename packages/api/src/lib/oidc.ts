@@ -0,0 +1,230 @@
+import { createHash, createPublicKey, randomBytes, verify as verifySignature } from 'node:crypto';
+import type { JsonWebKey } from 'node:crypto';
+
+import { appLink } from './app-url.js';
+import { checkTokenSignature, signTokenPayload } from './auth.js';
+
+/**
+ * OpenID Connect sign-in (authorization code flow with PKCE) against the
+ * issuer in OIDC_ISSUER. Unset means SSO is off and only email/password works.
+ */
+const OIDC_ISSUER = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+const OIDC_CLIENT_ID = process.env.OIDC_CLIENT_ID ?? '';
+// Optional: PKCE alone is enough for a public client.
+const OIDC_CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET;
+const OIDC_SCOPES = process.env.OIDC_SCOPES ?? 'openid email profile';
+// Shown on the sign-in button.
+export const OIDC_PROVIDER_NAME = process.env.OIDC_PROVIDER_NAME ?? 'single sign-on';
+
+const HTTP_TIMEOUT_MS = 10_000;
+// Allowed clock difference with the issuer when checking exp.
+const CLOCK_SKEW_SECONDS = 60;
+
+export function oidcEnabled(): boolean {
+  return !!OIDC_ISSUER && !!OIDC_CLIENT_ID;
+}
+
+// Registered with the issuer as the redirect URI; reached through the web app's /api proxy.
+export function oidcRedirectUri(): string {
+  return process.env.OIDC_REDIRECT_URI ?? appLink({}, '/api/auth/oidc/callback');
+}
+
+type IssuerMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export type OidcClaims = {
+  iss: string;
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+};
+
+async function fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    const detail = body && typeof body === 'object' && 'error' in body ? `: ${String(body.error)}` : '';
+    throw new Error(`${url} responded ${res.status}${detail}`);
+  }
+  return body;
+}
+
+let metadata: Promise<IssuerMetadata> | null = null;
+
+function issuerMetadata(): Promise<IssuerMetadata> {
+  metadata ??= (async () => {
+    const doc = (await fetchJson(`${OIDC_ISSUER}/.well-known/openid-configuration`)) as Partial<IssuerMetadata>;
+    if (doc.issuer !== OIDC_ISSUER || !doc.authorization_endpoint || !doc.token_endpoint || !doc.jwks_uri) {
+      throw new Error(`Discovery document of ${OIDC_ISSUER} is missing fields or names another issuer`);
+    }
+    return doc as IssuerMetadata;
+  })().catch((err) => {
+    // Don't cache a failure; the issuer may just have been down.
+    metadata = null;
+    throw err;
+  });
+  return metadata;
+}
+
+type Jwk = JsonWebKey & { kid?: string; use?: string };
+
+let jwks: Jwk[] = [];
+
+// Keys are refetched when a token names one we haven't seen, which is how issuers roll them.
+async function signingKey(kid: string | undefined): Promise<Jwk> {
+  const find = () => jwks.find((k) => (!kid || k.kid === kid) && (!k.use || k.use === 'sig'));
+  if (!find()) {
+    const { jwks_uri } = await issuerMetadata();
+    const doc = (await fetchJson(jwks_uri)) as { keys?: Jwk[] };
+    jwks = doc.keys ?? [];
+  }
+  const key = find();
+  if (!key) {
+    throw new Error('The issuer has no key matching the ID token');
+  }
+  return key;
+}
+
+export type OidcFlow = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  // Signed-in user asking to link the identity rather than sign in with it.
+  linkUserId: number | null;
+};
+
+export function createOidcFlow(linkUserId: number | null): OidcFlow {
+  return {
+    state: randomBytes(16).toString('base64url'),
+    nonce: randomBytes(16).toString('base64url'),
+    codeVerifier: randomBytes(32).toString('base64url'),
+    linkUserId
+  };
+}
+
+// The flow rides in a short-lived signed cookie between the redirect to the issuer and the callback.
+export function serializeOidcFlow(flow: OidcFlow): string {
+  const payload = Buffer.from(JSON.stringify(flow)).toString('base64url');
+  return `${payload}.${signTokenPayload(`oidc.${payload}`)}`;
+}
+
+export function parseOidcFlow(value: string): OidcFlow | null {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature || !checkTokenSignature(`oidc.${payload}`, signature)) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as OidcFlow;
+  } catch {
+    return null;
+  }
+}
+
+export async function authorizationUrl(flow: OidcFlow): Promise<string> {
+  const { authorization_endpoint } = await issuerMetadata();
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', OIDC_CLIENT_ID);
+  url.searchParams.set('redirect_uri', oidcRedirectUri());
+  url.searchParams.set('scope', OIDC_SCOPES);
+  url.searchParams.set('state', flow.state);
+  url.searchParams.set('nonce', flow.nonce);
+  url.searchParams.set('code_challenge', createHash('sha256').update(flow.codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<string, unknown>;
+}
+
+const ALGORITHMS: Record<string, { hash: string; ec: boolean }> = {
+  RS256: { hash: 'sha256', ec: false },
+  ES256: { hash: 'sha256', ec: true }
+};
+
+async function verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) {
+    throw new Error('Malformed ID token');
+  }
+
+  const header = decodeSegment(headerPart);
+  const algorithm = ALGORITHMS[String(header.alg)];
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm ${String(header.alg)}`);
+  }
+  const key = createPublicKey({ key: await signingKey(header.kid as string | undefined), format: 'jwk' });
+  const valid = verifySignature(
+    algorithm.hash,
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    algorithm.ec ? { key, dsaEncoding: 'ieee-p1363' } : key,
+    Buffer.from(signaturePart, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeSegment(payloadPart);
+  const now = Math.floor(Date.now() / 1000);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== OIDC_ISSUER) {
+    throw new Error('ID token is from another issuer');
+  }
+  if (!audience.includes(OIDC_CLIENT_ID) || (audience.length > 1 && claims.azp !== OIDC_CLIENT_ID)) {
+    throw new Error('ID token is for another client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+
+  return {
+    iss: OIDC_ISSUER!,
+    sub: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : undefined,
+    // Some issuers send "true" as a string.
+    email_verified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : undefined
+  };
+}
+
+/** Trade the authorization code for tokens and return the verified ID token's claims. */
+export async function exchangeCode(code: string, flow: OidcFlow): Promise<OidcClaims> {
+  const { token_endpoint } = await issuerMetadata();
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    accept: 'application/json'
+  };
+  if (OIDC_CLIENT_SECRET) {
+    const credentials = `${encodeURIComponent(OIDC_CLIENT_ID)}:${encodeURIComponent(OIDC_CLIENT_SECRET)}`;
+    headers.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = (await fetchJson(token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: oidcRedirectUri(),
+      client_id: OIDC_CLIENT_ID,
+      code_verifier: flow.codeVerifier
+    })
+  })) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error('The issuer returned no ID token');
+  }
+
+  return verifyIdToken(tokens.id_token, flow.nonce);
+}
@@ -0,0 +1,111 @@
+import { parseIngredients } from '@meal-rotation/ingredients';
+import type { ParsedIngredient } from '@meal-rotation/ingredients';
+
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { recipesInPool } from './households.js';
+import { itemKey } from './shopping-list.js';
+
+// Used until the user saves their own list. Kept to words that can't be mistaken
+// for a real ingredient: "pepper" would also swallow "bell pepper".
+export const DEFAULT_STAPLES = ['salt', 'black pepper', 'oil', 'water'];
+
+export function staplesFromJson(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string') : DEFAULT_STAPLES;
+}
+
+// "salt and pepper", "butter or oil": any one of the alternatives will do.
+function alternatives(key: string): string[] {
+  return key.split(/\s+(?:and|or|and\/or)\s+/).filter(Boolean);
+}
+
+// Whole-word containment, so "chicken" covers "chicken thigh" but "oil" doesn't cover "boiled".
+function mentions(ingredientKey: string, key: string): boolean {
+  return ` ${ingredientKey} `.includes(` ${key} `);
+}
+
+function coveredBy(ingredientKey: string, keys: string[]): boolean {
+  return alternatives(ingredientKey).some((alt) => keys.some((key) => mentions(alt, key)));
+}
+
+export type PantryMatch = {
+  recipe: {
+    id: number;
+    title: string;
+    imageUrl: string | null;
+    image: { id: number } | null;
+    sourceHost: string | null;
+    totalMinutes: number | null;
+  };
+  // Share of the recipe's non-staple ingredients on hand, 0..1.
+  coverage: number;
+  have: number;
+  total: number;
+  // Ingredient lines not covered, as written in the recipe.
+  missing: string[];
+};
+
+/**
+ * Score one recipe's ingredients against the pantry. Returns null when nothing
+ * is left to match once staples are set aside (no ingredients, or only salt
+ * and water), since such a recipe says nothing about what's in the pantry.
+ */
+export function matchIngredients(ingredients: ParsedIngredient[], pantryKeys: string[], stapleKeys: string[]) {
+  let have = 0;
+  const missing: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const key = itemKey(ingredient.item);
+    if (!key || coveredBy(key, stapleKeys)) continue;
+    if (coveredBy(key, pantryKeys)) have++;
+    else missing.push(ingredient.raw);
+  }
+
+  const total = have + missing.length;
+  return total ? { coverage: have / total, have, total, missing } : null;
+}
+
+/**
+ * Rank the pool's recipes by how much of each the user's pantry covers: best
+ * coverage first, then fewest missing ingredients.
+ */
+export async function matchPantry(pool: Pool, options: { maxMissing?: number; limit: number }): Promise<PantryMatch[]> {
+  const { userId } = pool;
+  const [user, items, recipes] = await Promise.all([
+    prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { pantryStaples: true } }),
+    prisma.pantryItem.findMany({ where: { userId }, select: { key: true } }),
+    prisma.recipe.findMany({
+      where: recipesInPool(pool),
+      select: {
+        id: true,
+        title: true,
+        imageUrl: true,
+        image: { select: { id: true } },
+        sourceHost: true,
+        totalMinutes: true,
+        ingredients: true,
+        ingredientsParsed: true
+      }
+    })
+  ]);
+
+  const pantryKeys = items.map((i) => i.key);
+  const stapleKeys = staplesFromJson(user.pantryStaples).map(itemKey).filter(Boolean);
+
+  const matches = recipes.flatMap(({ ingredients, ingredientsParsed, ...recipe }): PantryMatch[] => {
+    // Older rows may predate ingredientsParsed.
+    const parsed = Array.isArray(ingredientsParsed)
+      ? (ingredientsParsed as unknown as ParsedIngredient[])
+      : parseIngredients(ingredients);
+    const match = matchIngredients(parsed, pantryKeys, stapleKeys);
+    if (!match || (options.maxMissing !== undefined && match.missing.length > options.maxMissing)) return [];
+    return [{ recipe, ...match }];
+  });
+
+  matches.sort(
+    (a, b) =>
+      b.coverage - a.coverage || a.missing.length - b.missing.length || a.recipe.title.localeCompare(b.recipe.title)
+  );
+
+  return matches.slice(0, options.limit);
+}
@@ -0,0 +1,102 @@
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { poolOwner } from './households.js';
+import { HttpError } from './http-error.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseDateParam(raw: string | undefined): Date {
+  const match = (raw ?? '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    throw new HttpError(400, 'Invalid date (expected YYYY-MM-DD)');
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  if (Number.isNaN(date.getTime()) || formatDate(date) !== raw) {
+    throw new HttpError(400, 'Invalid date (expected YYYY-MM-DD)');
+  }
+
+  return date;
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function today(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+// Weeks run Monday..Sunday; all plan dates are UTC midnights.
+export function startOfWeek(date: Date): Date {
+  const day = date.getUTCDay();
+  const offset = day === 0 ? -6 : 1 - day;
+  return today(addDays(date, offset));
+}
+
+export function weekDates(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+}
+
+export function isInWeek(date: Date, weekStart: Date): boolean {
+  const diff = date.getTime() - weekStart.getTime();
+  return diff >= 0 && diff < 7 * DAY_MS;
+}
+
+// Unique lookup of the pool's plan for a week.
+export function planWhereWeek(pool: Pool, weekStart: Date): Prisma.MealPlanWhereUniqueInput {
+  return pool.householdId
+    ? { householdId_weekStart: { householdId: pool.householdId, weekStart } }
+    : { userId_weekStart: { userId: pool.userId, weekStart } };
+}
+
+export async function loadWeekPlan(pool: Pool, weekStart: Date) {
+  const plan = await prisma.mealPlan.findUnique({
+    where: planWhereWeek(pool, weekStart),
+    include: {
+      meals: {
+        orderBy: [{ date: 'asc' }, { slot: 'asc' }],
+        include: {
+          recipe: {
+            select: {
+              id: true,
+              title: true,
+              imageUrl: true,
+              image: { select: { id: true } },
+              sourceHost: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  return {
+    id: plan?.id ?? null,
+    weekStart: formatDate(weekStart),
+    notes: plan?.notes ?? null,
+    days: weekDates(weekStart).map(formatDate),
+    meals: (plan?.meals ?? []).map((meal) => ({
+      id: meal.id,
+      date: formatDate(meal.date),
+      slot: meal.slot,
+      note: meal.note,
+      recipe: meal.recipe
+    }))
+  };
+}
+
+export async function ensureWeekPlan(pool: Pool, weekStart: Date): Promise<{ id: number }> {
+  return prisma.mealPlan.upsert({
+    where: planWhereWeek(pool, weekStart),
+    create: { ...poolOwner(pool), weekStart },
+    update: {},
+    select: { id: true }
+  });
+}
@@ -0,0 +1,193 @@
+import { randomBytes } from 'node:crypto';
+
+import { Prisma } from '@prisma/client';
+import sharp from 'sharp';
+
+import { prisma } from './db.js';
+import { imageStorage } from './image-storage.js';
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15_000;
+// Decoding is refused past this, so a tiny file claiming huge dimensions can't eat the memory.
+const MAX_INPUT_PIXELS = 40_000_000;
+
+// Sized for the recipe cards (86px tall) and the detail banner (160px), at 2x.
+export const IMAGE_VARIANTS = {
+  list: { width: 640, height: 172 },
+  banner: { width: 1600, height: 320 }
+} as const;
+
+export type ImageSize = keyof typeof IMAGE_VARIANTS | 'original';
+export const IMAGE_SIZES = ['original', ...Object.keys(IMAGE_VARIANTS)] as ImageSize[];
+
+// Originals are served as they came only in these formats; SVG in particular is refused since it can carry script.
+const ORIGINAL_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+export function imageKey(storageKey: string, size: ImageSize): string {
+  return size === 'original' ? `${storageKey}/original` : `${storageKey}/${size}.webp`;
+}
+
+export function imageContentType(size: ImageSize, originalType: string): string {
+  return size === 'original' ? originalType : 'image/webp';
+}
+
+export async function downloadImage(url: string): Promise<{ data: Buffer; contentType: string } | null> {
+  try {
+    const res = await fetch(url, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: {
+        // Image CDNs block default node user agents as readily as recipe sites do.
+        'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123 Safari/537.36',
+        accept: 'image/avif,image/webp,image/*;q=0.8'
+      }
+    });
+    const contentType = res.headers.get('content-type') ?? '';
+    if (!res.ok || !contentType.startsWith('image/') || Number(res.headers.get('content-length')) > MAX_IMAGE_BYTES) {
+      await res.body?.cancel();
+      return null;
+    }
+
+    const data = await readCapped(res.body, MAX_IMAGE_BYTES);
+    return data && { data, contentType };
+  } catch {
+    return null;
+  }
+}
+
+// The body as a Buffer, or null as soon as it runs past `limit` bytes; the size header can be missing or lie.
+async function readCapped(body: ReadableStream<Uint8Array> | null, limit: number): Promise<Buffer | null> {
+  if (!body) return Buffer.alloc(0);
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      // Cancelling aborts the download rather than draining it.
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+type ProcessedImage = {
+  contentType: string;
+  width: number;
+  height: number;
+  variants: Array<[ImageSize, Buffer]>;
+};
+
+// Null when the bytes aren't an image we keep.
+async function processImage(data: Buffer): Promise<ProcessedImage | null> {
+  try {
+    const meta = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+    const contentType = meta.format ? ORIGINAL_TYPES[meta.format] : undefined;
+    if (!contentType || !meta.width || !meta.height) return null;
+
+    const variants = await Promise.all(
+      Object.entries(IMAGE_VARIANTS).map(async ([size, box]): Promise<[ImageSize, Buffer]> => {
+        const resized = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+          // Applies the EXIF orientation, which the browser would otherwise do for the original only.
+          .rotate()
+          .resize({ ...box, fit: 'cover', position: 'attention', withoutEnlargement: true })
+          .webp({ quality: 78 })
+          .toBuffer();
+        return [size as ImageSize, resized];
+      })
+    );
+    return { contentType, width: meta.width, height: meta.height, variants };
+  } catch {
+    return null;
+  }
+}
+
+export async function removeImageFiles(storageKeys: string[]): Promise<void> {
+  for (const key of storageKeys) {
+    await imageStorage().deletePrefix(key);
+  }
+}
+
+/**
+ * Bring the recipe's cached image in line with its imageUrl: a new URL is
+ * downloaded and resized, and an image for an old URL is dropped. When the
+ * download fails the recipe just has no cached image, and the app falls back
+ * to the URL itself. `bundled` is a copy of the image that came with the
+ * recipe (a backup being restored), used instead of downloading it again.
+ */
+export async function syncRecipeImage(recipeId: number, bundled?: Buffer): Promise<void> {
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    select: { imageUrl: true, image: { select: { id: true, sourceUrl: true, storageKey: true } } }
+  });
+  if (!recipe || (recipe.image && recipe.image.sourceUrl === recipe.imageUrl)) {
+    return;
+  }
+
+  if (recipe.image) {
+    await prisma.recipeImage.deleteMany({ where: { id: recipe.image.id } });
+    await removeImageFiles([recipe.image.storageKey]);
+  }
+  if (!recipe.imageUrl) {
+    return;
+  }
+
+  let original = bundled;
+  let processed = original && (await processImage(original));
+  if (!processed) {
+    original = (await downloadImage(recipe.imageUrl))?.data;
+    processed = original && (await processImage(original));
+  }
+  if (!original || !processed) {
+    return;
+  }
+
+  const storageKey = randomBytes(12).toString('hex');
+  const storage = imageStorage();
+  await storage.put(imageKey(storageKey, 'original'), original);
+  for (const [size, data] of processed.variants) {
+    await storage.put(imageKey(storageKey, size), data);
+  }
+
+  try {
+    await prisma.recipeImage.create({
+      data: {
+        recipeId,
+        sourceUrl: recipe.imageUrl,
+        storageKey,
+        contentType: processed.contentType,
+        width: processed.width,
+        height: processed.height,
+        bytes: original.length
+      }
+    });
+  } catch (err) {
+    await removeImageFiles([storageKey]);
+    // The recipe was deleted meanwhile, or a concurrent sync got there first.
+    if (err instanceof Prisma.PrismaClientKnownRequestError && (err.code === 'P2003' || err.code === 'P2002')) {
+      return;
+    }
+    throw err;
+  }
+}
+
+// For request handlers: the downloads shouldn't hold up the response. One at a
+// time, since a file import can bring hundreds.
+export function syncRecipeImagesLater(recipeIds: number[], bundled = new Map<number, Buffer>()): void {
+  void (async () => {
+    for (const recipeId of recipeIds) {
+      await syncRecipeImage(recipeId, bundled.get(recipeId)).catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error('Caching recipe image failed', recipeId, err);
+      });
+    }
+  })();
+}
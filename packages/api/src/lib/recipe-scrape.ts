@@ -0,0 +1,59 @@
+import { parseIngredients } from '@meal-rotation/ingredients';
+import { Prisma } from '@prisma/client';
+
+import type { ScrapedRecipe } from './scrape.js';
+
+// Scraped fields a user may edit by hand. Once edited, a field is listed in
+// `Recipe.manualFields` and rescraping no longer overwrites it.
+export const EDITABLE_FIELDS = [
+  'title',
+  'description',
+  'imageUrl',
+  'servings',
+  'servingsText',
+  'ingredients',
+  'instructions',
+  'totalMinutes'
+] as const;
+
+export type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+export function manualFieldsFromJson(value: unknown): EditableField[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((f): f is EditableField => EDITABLE_FIELDS.includes(f as EditableField));
+}
+
+export function scrapedRecipeData(scraped: ScrapedRecipe, manualFields: EditableField[]): Prisma.RecipeUpdateInput {
+  const locked = new Set(manualFields);
+  const data: Prisma.RecipeUpdateInput = {
+    sourceHost: scraped.sourceHost,
+    scrapeStatus: 'ok',
+    scrapeError: null,
+    scrapeExtractor: scraped.siteAdapter ? `${scraped.siteAdapter}:${scraped.extractor}` : scraped.extractor,
+    lastScrapedAt: new Date()
+  };
+
+  if (!locked.has('title')) data.title = scraped.title;
+  if (!locked.has('description')) data.description = scraped.description;
+  if (!locked.has('imageUrl')) data.imageUrl = scraped.imageUrl;
+  if (!locked.has('servings')) data.servings = scraped.servings ?? null;
+  if (!locked.has('servingsText')) data.servingsText = scraped.servingsText ?? null;
+  if (!locked.has('ingredients') && scraped.ingredients) {
+    data.ingredients = scraped.ingredients;
+    data.ingredientsParsed = parseIngredients(scraped.ingredients);
+  }
+  if (!locked.has('instructions') && scraped.instructions) data.instructions = scraped.instructions;
+  if (!locked.has('totalMinutes')) data.totalMinutes = scraped.totalMinutes ?? null;
+
+  data.prepMinutes = scraped.prepMinutes ?? null;
+  data.cookMinutes = scraped.cookMinutes ?? null;
+  data.cuisine = scraped.cuisine ?? Prisma.JsonNull;
+  data.category = scraped.category ?? Prisma.JsonNull;
+  data.keywords = scraped.keywords ?? Prisma.JsonNull;
+  data.nutrition = scraped.nutrition ?? Prisma.JsonNull;
+  data.author = scraped.author ?? null;
+  data.ratingValue = scraped.ratingValue ?? null;
+  data.ratingCount = scraped.ratingCount ?? null;
+
+  return data;
+}
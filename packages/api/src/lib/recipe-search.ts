@@ -0,0 +1,149 @@
+import { Prisma } from '@prisma/client';
+import type { ScrapeStatus } from '@prisma/client';
+
+import { cookStatsByRecipe, withCookStats } from './cook-history.js';
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { recipesInPool } from './households.js';
+import { listTags, recipeTagsInclude, tagKey, withTagNames } from './tags.js';
+
+export const RECIPE_SORTS = ['updated', 'created', 'title', 'time', 'relevance', 'longest-since-cooked', 'most-cooked'] as const;
+export type RecipeSort = (typeof RECIPE_SORTS)[number];
+
+export type RecipeSearch = {
+  q?: string;
+  // Recipes must carry every listed tag.
+  tags?: string[];
+  sourceHost?: string;
+  scrapeStatus?: ScrapeStatus;
+  // Bounds on totalMinutes; recipes without a time only show up when neither is set.
+  minMinutes?: number;
+  maxMinutes?: number;
+  // Defaults to relevance when searching, otherwise most recently updated.
+  sort?: RecipeSort;
+  page: number;
+  pageSize: number;
+};
+
+const listSelect = {
+  id: true,
+  title: true,
+  sourceUrl: true,
+  sourceHost: true,
+  imageUrl: true,
+  image: { select: { id: true } },
+  scrapeStatus: true,
+  lastScrapedAt: true,
+  totalMinutes: true,
+  tags: recipeTagsInclude,
+  updatedAt: true
+} satisfies Prisma.RecipeSelect;
+
+// Sorts the database can do on its own; the rest need ranks or cook stats.
+const ORDER_BY: Partial<Record<RecipeSort, Prisma.RecipeOrderByWithRelationInput[]>> = {
+  updated: [{ updatedAt: 'desc' }, { id: 'desc' }],
+  created: [{ createdAt: 'desc' }, { id: 'desc' }],
+  title: [{ title: 'asc' }, { id: 'asc' }],
+  time: [{ totalMinutes: { sort: 'asc', nulls: 'last' } }, { title: 'asc' }, { id: 'asc' }]
+};
+
+/**
+ * Turn free text into a tsquery: every word has to match, each as a prefix so
+ * results narrow while the user is still typing. Returns null when there's
+ * nothing searchable in the input.
+ */
+export function searchTsQuery(q: string): string | null {
+  const words = q.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((w) => `${w}:*`).join(' & ') : null;
+}
+
+// Recipe id -> rank for every recipe of the pool that matches, by its text or by a tag name.
+async function matchRanks(pool: Pool, tsquery: string): Promise<Map<number, number>> {
+  const inPool = pool.householdId
+    ? Prisma.sql`r."householdId" = ${pool.householdId}`
+    : Prisma.sql`r."userId" = ${pool.userId} AND r."householdId" IS NULL`;
+  const rows = await prisma.$queryRaw<Array<{ id: number; rank: number }>>`
+    SELECT r."id", ts_rank(coalesce(r."searchVector", ''::tsvector), query) AS "rank"
+    FROM "Recipe" r, to_tsquery('english', ${tsquery}) AS query
+    WHERE ${inPool} AND (
+      r."searchVector" @@ query OR EXISTS (
+        SELECT 1 FROM "RecipeTag" rt JOIN "Tag" t ON t."id" = rt."tagId"
+        WHERE rt."recipeId" = r."id" AND to_tsvector('english', t."name") @@ query
+      )
+    )
+  `;
+  return new Map(rows.map((r) => [r.id, r.rank]));
+}
+
+export async function searchRecipes(pool: Pool, search: RecipeSearch) {
+  const tsquery = search.q ? searchTsQuery(search.q) : null;
+  const ranks = tsquery ? await matchRanks(pool, tsquery) : null;
+
+  const where: Prisma.RecipeWhereInput = {
+    ...recipesInPool(pool),
+    ...(ranks ? { id: { in: [...ranks.keys()] } } : {}),
+    ...(search.sourceHost ? { sourceHost: search.sourceHost } : {}),
+    ...(search.scrapeStatus ? { scrapeStatus: search.scrapeStatus } : {}),
+    ...(search.minMinutes !== undefined || search.maxMinutes !== undefined
+      ? { totalMinutes: { gte: search.minMinutes, lte: search.maxMinutes } }
+      : {}),
+    AND: (search.tags ?? []).map((tag) => ({ tags: { some: { tag: { key: tagKey(tag) } } } }))
+  };
+
+  const sort = search.sort === 'relevance' && !ranks ? 'updated' : (search.sort ?? (ranks ? 'relevance' : 'updated'));
+  const skip = (search.page - 1) * search.pageSize;
+  const orderBy = ORDER_BY[sort];
+
+  if (orderBy) {
+    const [total, recipes] = await Promise.all([
+      prisma.recipe.count({ where }),
+      prisma.recipe.findMany({ where, orderBy, skip, take: search.pageSize, select: listSelect })
+    ]);
+    const stats = await cookStatsByRecipe(pool, recipes.map((r) => r.id));
+    return { total, recipes: recipes.map((r) => withCookStats(withTagNames(r), stats)) };
+  }
+
+  // Rank and cook-stat sorts: order the ids of every match here, then load one page.
+  const [candidates, stats] = await Promise.all([
+    prisma.recipe.findMany({ where, select: { id: true, updatedAt: true } }),
+    cookStatsByRecipe(pool)
+  ]);
+  const cookedTime = (id: number) => stats.get(id)?.lastCookedAt?.getTime() ?? 0;
+  const timesCooked = (id: number) => stats.get(id)?.timesCooked ?? 0;
+  const byRecent = (a: { updatedAt: Date }, b: { updatedAt: Date }) => b.updatedAt.getTime() - a.updatedAt.getTime();
+
+  candidates.sort((a, b) => {
+    if (sort === 'relevance') return (ranks!.get(b.id) ?? 0) - (ranks!.get(a.id) ?? 0) || byRecent(a, b);
+    if (sort === 'most-cooked') return timesCooked(b.id) - timesCooked(a.id) || cookedTime(b.id) - cookedTime(a.id);
+    // Never-cooked recipes first, then the ones cooked longest ago.
+    return cookedTime(a.id) - cookedTime(b.id) || byRecent(a, b);
+  });
+
+  const pageIds = candidates.slice(skip, skip + search.pageSize).map((r) => r.id);
+  const rows = await prisma.recipe.findMany({ where: { id: { in: pageIds } }, select: listSelect });
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const recipes = pageIds.flatMap((id) => {
+    const row = byId.get(id);
+    return row ? [withCookStats(withTagNames(row), stats)] : [];
+  });
+
+  return { total: candidates.length, recipes };
+}
+
+/** Values the list filters can take, with how many recipes have each. */
+export async function recipeFacets(pool: Pool) {
+  const [hosts, tagged] = await Promise.all([
+    prisma.recipe.groupBy({
+      by: ['sourceHost'],
+      where: { ...recipesInPool(pool), sourceHost: { not: null } },
+      _count: { _all: true },
+      orderBy: { sourceHost: 'asc' }
+    }),
+    listTags(pool)
+  ]);
+
+  return {
+    sourceHosts: hosts.map((h) => ({ sourceHost: h.sourceHost!, count: h._count._all })),
+    tags: tagged.filter((t) => t.count).map((t) => ({ tag: t.name, count: t.count }))
+  };
+}
@@ -0,0 +1,46 @@
+import { randomBytes } from 'node:crypto';
+
+import { parseIngredients } from '@meal-rotation/ingredients';
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from './db.js';
+import { recipeTagsInclude, withTagNames } from './tags.js';
+
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// What a shared link shows: the cleaned-up recipe, without notes, cook history or scrape bookkeeping.
+const sharedRecipeSelect = {
+  title: true,
+  description: true,
+  imageUrl: true,
+  sourceUrl: true,
+  sourceHost: true,
+  servings: true,
+  servingsText: true,
+  ingredients: true,
+  ingredientsParsed: true,
+  instructions: true,
+  prepMinutes: true,
+  cookMinutes: true,
+  totalMinutes: true,
+  cuisine: true,
+  category: true,
+  nutrition: true,
+  author: true,
+  tags: recipeTagsInclude,
+  updatedAt: true
+} satisfies Prisma.RecipeSelect;
+
+export async function loadSharedRecipe(token: string) {
+  const recipe = await prisma.recipe.findUnique({ where: { shareToken: token }, select: sharedRecipeSelect });
+  if (!recipe) {
+    return null;
+  }
+
+  return {
+    ...withTagNames(recipe),
+    ingredientsParsed: recipe.ingredientsParsed ?? parseIngredients(recipe.ingredients)
+  };
+}
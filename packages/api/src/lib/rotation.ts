@@ -0,0 +1,102 @@
+import type { MealSlot } from '@prisma/client';
+
+import { formatDate } from './plans.js';
+import { tagKey } from './tags.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SLOT_ORDER: Record<MealSlot, number> = {
+  breakfast: 0,
+  lunch: 1,
+  dinner: 2
+};
+
+export type RotationCandidate = {
+  id: number;
+  tags: string[];
+};
+
+export type RotationSlot = {
+  date: Date;
+  slot: MealSlot;
+};
+
+export type RotationOptions = {
+  seed: number;
+  cooldownDays: number;
+  requiredTags: string[];
+  excludedTags: string[];
+};
+
+export type RotationResult = {
+  assigned: Array<RotationSlot & { recipeId: number }>;
+  unfilled: RotationSlot[];
+};
+
+// mulberry32: tiny, fast and good enough to shuffle a recipe pool reproducibly.
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function matchesTags(candidate: RotationCandidate, options: RotationOptions): boolean {
+  const tags = new Set(candidate.tags.map(tagKey));
+  return (
+    options.requiredTags.every((t) => tags.has(tagKey(t))) &&
+    !options.excludedTags.some((t) => tags.has(tagKey(t)))
+  );
+}
+
+/**
+ * Fill `slots` from `candidates`, skipping anything used within `cooldownDays`
+ * of the slot's date. `history` maps recipe ids to the dates they were used
+ * (planned or cooked); recipes picked here count as used for later slots.
+ *
+ * Candidates are ordered by id before shuffling, so the same inputs and seed
+ * always produce the same plan.
+ */
+export function generateRotation(
+  candidates: RotationCandidate[],
+  slots: RotationSlot[],
+  history: Map<number, Date[]>,
+  options: RotationOptions
+): RotationResult {
+  const rng = createRng(options.seed);
+  const cooldownMs = options.cooldownDays * DAY_MS;
+  const pool = candidates.filter((c) => matchesTags(c, options)).sort((a, b) => a.id - b.id);
+  const usage = new Map<number, Date[]>();
+  for (const [id, dates] of history) usage.set(id, [...dates]);
+
+  const result: RotationResult = { assigned: [], unfilled: [] };
+  const orderedSlots = [...slots].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || SLOT_ORDER[a.slot] - SLOT_ORDER[b.slot]
+  );
+
+  for (const slot of orderedSlots) {
+    const eligible = pool.filter((c) => {
+      const used = usage.get(c.id) ?? [];
+      // Always avoid the same recipe twice on one day, even with no cooldown.
+      return used.every((d) => {
+        const diff = Math.abs(d.getTime() - slot.date.getTime());
+        return diff >= cooldownMs && formatDate(d) !== formatDate(slot.date);
+      });
+    });
+
+    if (!eligible.length) {
+      result.unfilled.push(slot);
+      continue;
+    }
+
+    const picked = eligible[Math.floor(rng() * eligible.length)]!;
+    usage.set(picked.id, [...(usage.get(picked.id) ?? []), slot.date]);
+    result.assigned.push({ ...slot, recipeId: picked.id });
+  }
+
+  return result;
+}
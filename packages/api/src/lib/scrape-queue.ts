@@ -0,0 +1,270 @@
+import { Prisma } from '@prisma/client';
+import type { ScrapeJob } from '@prisma/client';
+
+import { prisma } from './db.js';
+import { manualFieldsFromJson, scrapedRecipeData } from './recipe-scrape.js';
+import { syncRecipeImage } from './recipe-images.js';
+import { ScrapeFetchError, ScrapeNetworkError, scrapeRecipe } from './scrape.js';
+
+const CONCURRENCY = Number(process.env.SCRAPE_CONCURRENCY ?? 4);
+// Per API process; a single instance is what we run.
+const HOST_CONCURRENCY = Number(process.env.SCRAPE_HOST_CONCURRENCY ?? 1);
+const POLL_MS = 5_000;
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60_000;
+
+const OPEN_STATUSES = ['queued', 'running'] as const;
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+let tickAgain = false;
+let running = 0;
+const runningByHost = new Map<string, number>();
+
+// The recipe, and with it the job, was deleted while the scrape ran.
+function isGone(err: unknown): boolean {
+  return err instanceof Prisma.PrismaClientKnownRequestError && (err.code === 'P2025' || err.code === 'P2003');
+}
+
+// Worth another try later: the site or the network was having a bad moment.
+function isTransient(err: unknown): boolean {
+  if (err instanceof ScrapeFetchError) {
+    return err.status >= 500 || err.status === 408 || err.status === 429;
+  }
+  // Anything else thrown while scraping (a page that breaks the extractor, say) would only fail again.
+  return err instanceof ScrapeNetworkError || (err instanceof Error && err.name === 'TimeoutError');
+}
+
+function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Queue a scrape of the recipe's source URL and mark the recipe pending.
+ * A recipe has at most one open job; asking again pulls a job waiting on
+ * backoff forward instead of adding another.
+ */
+export async function enqueueScrape(recipeId: number): Promise<ScrapeJob | null> {
+  const recipe = await prisma.recipe.findUnique({ where: { id: recipeId }, select: { sourceUrl: true } });
+  if (!recipe?.sourceUrl) {
+    return null;
+  }
+
+  const open = await prisma.scrapeJob.findFirst({
+    where: { recipeId, status: { in: [...OPEN_STATUSES] } },
+    orderBy: { id: 'desc' }
+  });
+  if (open) {
+    if (open.status === 'queued' && open.runAfter > new Date()) {
+      wakeScrapeWorker();
+      return prisma.scrapeJob.update({ where: { id: open.id }, data: { runAfter: new Date() } });
+    }
+    return open;
+  }
+
+  const [job] = await prisma.$transaction([
+    prisma.scrapeJob.create({
+      data: { recipeId, url: recipe.sourceUrl, host: new URL(recipe.sourceUrl).hostname }
+    }),
+    prisma.recipe.update({ where: { id: recipeId }, data: { scrapeStatus: 'pending', scrapeError: null } })
+  ]);
+
+  wakeScrapeWorker();
+  return job;
+}
+
+/**
+ * Bulk variant of enqueueScrape for freshly created recipes, which are already
+ * pending and cannot have an open job yet.
+ */
+export async function enqueueNewRecipes(recipes: Array<{ id: number; sourceUrl: string }>): Promise<void> {
+  if (!recipes.length) return;
+
+  await prisma.scrapeJob.createMany({
+    data: recipes.map((r) => ({ recipeId: r.id, url: r.sourceUrl, host: new URL(r.sourceUrl).hostname }))
+  });
+  wakeScrapeWorker();
+}
+
+// Put back jobs a previous process died in the middle of, and give recipes
+// left pending without a job (added before the queue existed) one.
+async function recoverJobs(): Promise<void> {
+  await prisma.scrapeJob.updateMany({ where: { status: 'running' }, data: { status: 'queued', startedAt: null } });
+
+  const orphans = await prisma.recipe.findMany({
+    where: {
+      scrapeStatus: 'pending',
+      sourceUrl: { not: null },
+      scrapeJobs: { none: { status: { in: [...OPEN_STATUSES] } } }
+    },
+    select: { id: true, sourceUrl: true }
+  });
+  if (orphans.length) {
+    await prisma.scrapeJob.createMany({
+      data: orphans.map((r) => ({ recipeId: r.id, url: r.sourceUrl!, host: new URL(r.sourceUrl!).hostname }))
+    });
+  }
+}
+
+async function claimNextJob(): Promise<ScrapeJob | null> {
+  for (;;) {
+    const busyHosts = [...runningByHost].filter(([, n]) => n >= HOST_CONCURRENCY).map(([host]) => host);
+    const candidate = await prisma.scrapeJob.findFirst({
+      where: { status: 'queued', runAfter: { lte: new Date() }, host: { notIn: busyHosts } },
+      orderBy: [{ runAfter: 'asc' }, { id: 'asc' }]
+    });
+    if (!candidate) {
+      return null;
+    }
+
+    // Conditional update so two workers can't both take the same job.
+    const startedAt = new Date();
+    const claimed = await prisma.scrapeJob.updateMany({
+      where: { id: candidate.id, status: 'queued' },
+      data: { status: 'running', startedAt, attempts: { increment: 1 } }
+    });
+    if (claimed.count === 1) {
+      return { ...candidate, status: 'running', startedAt, attempts: candidate.attempts + 1 };
+    }
+  }
+}
+
+async function runJob(job: ScrapeJob): Promise<void> {
+  const startedAt = job.startedAt ?? new Date();
+
+  try {
+    const scraped = await scrapeRecipe(job.url);
+    const recipe = await prisma.recipe.findUnique({ where: { id: job.recipeId }, select: { manualFields: true } });
+    if (!recipe) {
+      return;
+    }
+
+    const finishedAt = new Date();
+    await prisma.$transaction([
+      prisma.recipe.update({
+        where: { id: job.recipeId },
+        data: scrapedRecipeData(scraped, manualFieldsFromJson(recipe.manualFields))
+      }),
+      prisma.scrapeAttempt.create({ data: { jobId: job.id, startedAt, finishedAt, ok: true } }),
+      prisma.scrapeJob.update({ where: { id: job.id }, data: { status: 'done', finishedAt, lastError: null } })
+    ]);
+
+    // Best effort: a missing image shouldn't turn a good scrape into a failed one.
+    await syncRecipeImage(job.recipeId).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.error('Caching recipe image failed', job.recipeId, err);
+    });
+  } catch (err) {
+    if (isGone(err)) {
+      return;
+    }
+
+    const message = err instanceof Error ? err.message : 'Unknown scrape error';
+    const transient = isTransient(err);
+    const retry = transient && job.attempts < job.maxAttempts;
+    const finishedAt = new Date();
+
+    try {
+      await prisma.$transaction([
+        prisma.scrapeAttempt.create({
+          data: {
+            jobId: job.id,
+            startedAt,
+            finishedAt,
+            ok: false,
+            error: message,
+            httpStatus: err instanceof ScrapeFetchError ? err.status : null,
+            transient
+          }
+        }),
+        prisma.scrapeJob.update({
+          where: { id: job.id },
+          data: retry
+            ? {
+                status: 'queued',
+                startedAt: null,
+                runAfter: new Date(finishedAt.getTime() + retryDelayMs(job.attempts)),
+                lastError: message
+              }
+            : { status: 'failed', finishedAt, lastError: message }
+        }),
+        // The recipe stays pending while retries are left.
+        ...(retry
+          ? []
+          : [
+              prisma.recipe.update({
+                where: { id: job.recipeId },
+                data: { scrapeStatus: 'error', scrapeError: message, lastScrapedAt: finishedAt }
+              })
+            ])
+      ]);
+    } catch (err2) {
+      if (isGone(err2)) {
+        return;
+      }
+      throw err2;
+    }
+  }
+}
+
+async function tick(): Promise<void> {
+  if (ticking) {
+    tickAgain = true;
+    return;
+  }
+  ticking = true;
+  tickAgain = false;
+
+  try {
+    while (running < CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      running++;
+      runningByHost.set(job.host, (runningByHost.get(job.host) ?? 0) + 1);
+
+      void runJob(job)
+        .catch((err) => {
+          // eslint-disable-next-line no-console
+          console.error('Scrape job failed', job.id, err);
+        })
+        .finally(() => {
+          running--;
+          const n = (runningByHost.get(job.host) ?? 1) - 1;
+          if (n > 0) runningByHost.set(job.host, n);
+          else runningByHost.delete(job.host);
+          wakeScrapeWorker();
+        });
+    }
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error('Scrape worker tick failed', err);
+  } finally {
+    ticking = false;
+  }
+
+  if (tickAgain) {
+    void tick();
+  }
+}
+
+export function wakeScrapeWorker(): void {
+  if (timer) {
+    void tick();
+  }
+}
+
+export async function startScrapeWorker(): Promise<void> {
+  if (timer) return;
+
+  await recoverJobs();
+  timer = setInterval(() => void tick(), POLL_MS);
+  void tick();
+}
+
+export function stopScrapeWorker(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
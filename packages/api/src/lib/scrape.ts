@@ -1,6 +1,15 @@
 import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
 import he from 'he';
 
+import { parseFirstNumber } from '@meal-rotation/ingredients';
+import { cleanRecipeText, removeJunkElements } from './site-adapters/common.js';
+import { findSiteAdapter } from './site-adapters/index.js';
+
+// Which part of the page a scrape result came from. 'meta' means no recipe markup was found;
+// 'site' means a site adapter's own extraction replaced the generic one.
+export type ScrapeExtractor = 'json-ld' | 'microdata' | 'rdfa' | 'wprm' | 'tasty-recipes' | 'mediavine-create' | 'site' | 'meta';
+
 export type ScrapedRecipe = {
   title: string;
   description?: string;
@@ -9,9 +18,25 @@ export type ScrapedRecipe = {
   servingsText?: string;
   ingredients?: string[];
   instructions?: string[];
+  prepMinutes?: number;
+  cookMinutes?: number;
+  totalMinutes?: number;
+  cuisine?: string[];
+  category?: string[];
+  keywords?: string[];
+  // NutritionInformation properties as published, e.g. { calories: '320 kcal', proteinContent: '12 g' }.
+  nutrition?: Record<string, string>;
+  author?: string;
+  ratingValue?: number;
+  ratingCount?: number;
   sourceHost?: string;
+  extractor: ScrapeExtractor;
+  // Name of the site adapter that handled the page, if any.
+  siteAdapter?: string;
 };
 
+export type ExtractedFields = Omit<ScrapedRecipe, 'title' | 'sourceHost' | 'extractor' | 'siteAdapter'> & { title?: string };
+
 function normalizeText(value: string): string {
   return he
     .decode(value)
@@ -36,7 +61,7 @@ function toStringArray(value: unknown): string[] | undefined {
   return undefined;
 }
 
-function flattenJsonLd(json: unknown): unknown[] {
+export function flattenJsonLd(json: unknown): unknown[] {
   if (!json) {
     return [];
   }
@@ -57,7 +82,7 @@ function flattenJsonLd(json: unknown): unknown[] {
   return [];
 }
 
-function isRecipeType(typeValue: unknown): boolean {
+export function isRecipeType(typeValue: unknown): boolean {
   if (typeof typeValue === 'string') {
     return typeValue.toLowerCase() === 'recipe';
   }
@@ -170,33 +195,6 @@ function parseInstructions(value: unknown): string[] | undefined {
   return undefined;
 }
 
-const UNICODE_FRACTIONS: Record<string, string> = {
-  '¼': '1/4',
-  '½': '1/2',
-  '¾': '3/4',
-  '⅐': '1/7',
-  '⅑': '1/9',
-  '⅒': '1/10',
-  '⅓': '1/3',
-  '⅔': '2/3',
-  '⅕': '1/5',
-  '⅖': '2/5',
-  '⅗': '3/5',
-  '⅘': '4/5',
-  '⅙': '1/6',
-  '⅚': '5/6',
-  '⅛': '1/8',
-  '⅜': '3/8',
-  '⅝': '5/8',
-  '⅞': '7/8'
-};
-
-function normalizeFractions(text: string): string {
-  // Convert unicode fractions to ascii fractions so downstream parsing can be simple.
-  // Example: "1½" -> "1 1/2"
-  return text.replace(/[¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, (m) => ` ${UNICODE_FRACTIONS[m] ?? m} `);
-}
-
 function toFirstString(value: unknown): string | undefined {
   if (!value) return undefined;
   if (typeof value === 'string') return value;
@@ -210,42 +208,358 @@ function toFirstString(value: unknown): string | undefined {
   return undefined;
 }
 
-function parseFirstNumber(text: string): number | undefined {
-  const s = normalizeFractions(text);
-
-  // Prefer mixed fractions first.
-  const mixed = s.match(/(\d+)\s+(\d+)\s*\/\s*(\d+)/);
-  if (mixed) {
-    const whole = Number(mixed[1]);
-    const num = Number(mixed[2]);
-    const den = Number(mixed[3]);
-    if (Number.isFinite(whole) && Number.isFinite(num) && Number.isFinite(den) && den !== 0) {
-      return whole + num / den;
+/**
+ * Minutes in an ISO 8601 duration (PT1H30M, P0DT0H45M). Some sites publish
+ * plain text instead ("1 hr 20 mins"), which is read as a best effort.
+ */
+export function parseDurationMinutes(value: unknown): number | undefined {
+  const raw = toFirstString(value)?.trim();
+  if (!raw) return undefined;
+
+  const iso = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i.exec(raw);
+  let minutes: number | undefined;
+  if (iso && raw.length > 1 && !/T$/i.test(raw)) {
+    const [, d, h, m, sec] = iso;
+    minutes = Number(d ?? 0) * 1440 + Number(h ?? 0) * 60 + Number(m ?? 0) + Number(sec ?? 0) / 60;
+  } else {
+    // No word boundary after the hours, so compact forms like "1h30m" count them too.
+    const hours = /(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?/i.exec(raw);
+    const mins = /(\d+)\s*(?:m|min|mins|minutes?)\b/i.exec(raw);
+    if (hours || mins) {
+      minutes = Number(hours?.[1] ?? 0) * 60 + Number(mins?.[1] ?? 0);
     }
   }
 
-  const frac = s.match(/(\d+)\s*\/\s*(\d+)/);
-  if (frac) {
-    const num = Number(frac[1]);
-    const den = Number(frac[2]);
-    if (Number.isFinite(num) && Number.isFinite(den) && den !== 0) {
-      return num / den;
+  return minutes !== undefined && minutes > 0 ? Math.round(minutes) : undefined;
+}
+
+function timeFields(prep: unknown, cook: unknown, total: unknown): Pick<ExtractedFields, 'prepMinutes' | 'cookMinutes' | 'totalMinutes'> {
+  const prepMinutes = parseDurationMinutes(prep);
+  const cookMinutes = parseDurationMinutes(cook);
+  // Plenty of sites leave totalTime out; prep + cook is what a reader would add up anyway.
+  const totalMinutes =
+    parseDurationMinutes(total) ?? (prepMinutes !== undefined || cookMinutes !== undefined ? (prepMinutes ?? 0) + (cookMinutes ?? 0) : undefined);
+  return { prepMinutes, cookMinutes, totalMinutes };
+}
+
+function toTextList(value: unknown): string[] | undefined {
+  // Categories and keywords come as arrays, comma separated strings, or both.
+  const values = Array.isArray(value) ? value : [value];
+  const out = values
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map(normalizeText)
+    .filter(Boolean);
+  return out.length ? [...new Set(out)] : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : typeof value === 'string' ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function pickAuthor(value: unknown): string | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  const names = values
+    .map((v) => (typeof v === 'string' ? v : typeof v === 'object' && v ? (v as Record<string, unknown>)['name'] : undefined))
+    .filter((v): v is string => typeof v === 'string')
+    .map(normalizeText)
+    .filter(Boolean);
+  return names.length ? names.join(', ') : undefined;
+}
+
+function pickNutrition(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== 'object' || !value || Array.isArray(value)) return undefined;
+
+  const out: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (key.startsWith('@')) continue;
+    const text = toFirstString(raw);
+    if (text && normalizeText(text)) out[key] = normalizeText(text);
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+function ratingFields(value: unknown): Pick<ExtractedFields, 'ratingValue' | 'ratingCount'> {
+  if (typeof value !== 'object' || !value) return {};
+  const rating = value as Record<string, unknown>;
+  const ratingCount = toNumber(rating['ratingCount']) ?? toNumber(rating['reviewCount']);
+  return {
+    ratingValue: toNumber(rating['ratingValue']),
+    ratingCount: ratingCount !== undefined ? Math.round(ratingCount) : undefined
+  };
+}
+
+function servingsFields(raw: string | undefined): Pick<ExtractedFields, 'servings' | 'servingsText'> {
+  const servingsText = raw ? normalizeText(raw) : undefined;
+  if (!servingsText) return {};
+  return { servingsText, servings: parseFirstNumber(servingsText) };
+}
+
+export function fromJsonLd(recipeNode: Record<string, unknown>, url: URL): ExtractedFields {
+  const servingsRaw =
+    toFirstString(recipeNode['recipeYield']) ??
+    toFirstString(recipeNode['yield']) ??
+    toFirstString(recipeNode['recipeServings']) ??
+    toFirstString(recipeNode['servings']);
+
+  return {
+    title: typeof recipeNode['name'] === 'string' ? normalizeText(recipeNode['name']) : undefined,
+    description: typeof recipeNode['description'] === 'string' ? normalizeText(recipeNode['description']) : undefined,
+    imageUrl: pickImageUrl(recipeNode['image'], url),
+    ...servingsFields(servingsRaw),
+    ingredients: toStringArray(recipeNode['recipeIngredient']),
+    instructions: parseInstructions(recipeNode['recipeInstructions']),
+    ...timeFields(recipeNode['prepTime'], recipeNode['cookTime'], recipeNode['totalTime']),
+    cuisine: toTextList(recipeNode['recipeCuisine']),
+    category: toTextList(recipeNode['recipeCategory']),
+    keywords: toTextList(recipeNode['keywords']),
+    nutrition: pickNutrition(recipeNode['nutrition']),
+    author: pickAuthor(recipeNode['author']),
+    ...ratingFields(recipeNode['aggregateRating'])
+  };
+}
+
+type Selection = cheerio.Cheerio<AnyNode>;
+
+function elementText($: cheerio.CheerioAPI, el: Selection): string {
+  // Block-level children (paragraphs, <br>) would otherwise run words together.
+  const clone = el.clone();
+  clone.find('br').replaceWith('\n');
+  clone.find('p, li, div').append('\n');
+  return $(clone).text();
+}
+
+function imageSrc(el: Selection, base: URL): string | undefined {
+  // Lazy-loading plugins keep the real URL in a data attribute.
+  return (
+    normalizeUrl(el.attr('data-lazy-src'), base) ||
+    normalizeUrl(el.attr('data-src'), base) ||
+    normalizeUrl(el.attr('src'), base)
+  );
+}
+
+// Attribute-based structured data (microdata and RDFa) share the same shape:
+// a scope element carrying the type, and descendants naming their property.
+type AttributeSyntax = {
+  scopeSelector: string;
+  scopeAttr: string;
+  typeAttr: string;
+  propAttr: string;
+};
+
+const MICRODATA: AttributeSyntax = {
+  scopeSelector: '[itemscope][itemtype]',
+  scopeAttr: 'itemscope',
+  typeAttr: 'itemtype',
+  propAttr: 'itemprop'
+};
+
+const RDFA: AttributeSyntax = {
+  scopeSelector: '[typeof]',
+  scopeAttr: 'typeof',
+  typeAttr: 'typeof',
+  propAttr: 'property'
+};
+
+function localName(term: string): string {
+  // schema:recipeIngredient, http://schema.org/recipeIngredient -> recipeIngredient
+  return term.replace(/^.*[/#:]/, '');
+}
+
+function findRecipeScope($: cheerio.CheerioAPI, syntax: AttributeSyntax): Selection | undefined {
+  const scope = $(syntax.scopeSelector)
+    .toArray()
+    .find((el) => ($(el).attr(syntax.typeAttr) ?? '').split(/\s+/).some((t) => localName(t).toLowerCase() === 'recipe'));
+  return scope ? $(scope) : undefined;
+}
+
+function scopedProps($: cheerio.CheerioAPI, scope: Selection, syntax: AttributeSyntax, name: string): Selection[] {
+  return scope
+    .find(`[${syntax.propAttr}]`)
+    .toArray()
+    .map((el) => $(el))
+    .filter((el) => (el.attr(syntax.propAttr) ?? '').split(/\s+/).some((p) => localName(p) === name))
+    // Skip properties of nested items (author, nutrition, review...).
+    .filter((el) => el.parent().closest(`[${syntax.scopeAttr}]`).is(scope));
+}
+
+function propValue($: cheerio.CheerioAPI, el: Selection, base: URL): string | undefined {
+  const content = el.attr('content');
+  if (content !== undefined) return normalizeText(content);
+
+  const tag = (el.prop('tagName') as string | undefined)?.toLowerCase();
+  if (tag === 'img') return imageSrc(el, base);
+  if (tag === 'a' || tag === 'link') return normalizeUrl(el.attr('href'), base);
+  if (tag === 'time') return el.attr('datetime') ?? normalizeText(el.text());
+
+  return normalizeText(el.text()) || undefined;
+}
+
+function instructionsFromElement($: cheerio.CheerioAPI, el: Selection, syntax: AttributeSyntax): string[] {
+  // HowToStep items, then plain list items, then free text split into steps.
+  const steps = el.find(`[${syntax.propAttr}="text"]`);
+  if (steps.length) {
+    return steps.toArray().map((s) => normalizeText($(s).text())).filter(Boolean);
+  }
+
+  const items = el.find('li');
+  if (items.length) {
+    return items.toArray().map((li) => normalizeText($(li).text())).filter(Boolean);
+  }
+
+  return parseInstructions(elementText($, el).split('\n').map(normalizeText).filter(Boolean)) ?? [];
+}
+
+function fromAttributes($: cheerio.CheerioAPI, base: URL, syntax: AttributeSyntax): ExtractedFields | undefined {
+  const scope = findRecipeScope($, syntax);
+  if (!scope) return undefined;
+
+  const first = (name: string) => {
+    for (const el of scopedProps($, scope, syntax, name)) {
+      const value = propValue($, el, base);
+      if (value) return value;
     }
+    return undefined;
+  };
+  const all = (name: string) =>
+    scopedProps($, scope, syntax, name)
+      .map((el) => propValue($, el, base))
+      .filter((v): v is string => !!v);
+
+  // `ingredients` is the pre-2013 schema.org name and is still common on older blogs.
+  const ingredients = all('recipeIngredient');
+  const legacyIngredients = ingredients.length ? ingredients : all('ingredients');
+  const instructions = scopedProps($, scope, syntax, 'recipeInstructions').flatMap((el) =>
+    instructionsFromElement($, el, syntax)
+  );
+
+  const imageEl = scopedProps($, scope, syntax, 'image')[0];
+
+  return {
+    title: first('name'),
+    description: first('description'),
+    imageUrl: imageEl ? propValue($, imageEl, base) ?? imageSrc(imageEl.find('img').first(), base) : undefined,
+    ...servingsFields(first('recipeYield') ?? first('yield')),
+    ingredients: legacyIngredients.length ? legacyIngredients : undefined,
+    instructions: instructions.length ? instructions : undefined,
+    ...timeFields(first('prepTime'), first('cookTime'), first('totalTime')),
+    cuisine: toTextList(all('recipeCuisine')),
+    category: toTextList(all('recipeCategory')),
+    keywords: toTextList(all('keywords')),
+    author: first('author')
+  };
+}
+
+// Recipe card plugins render the same fields under their own class names.
+type PluginSelectors = {
+  root: string;
+  title: string;
+  description: string;
+  image: string;
+  servings: string;
+  ingredients: string;
+  instructions: string;
+};
+
+function fromPlugin($: cheerio.CheerioAPI, base: URL, selectors: PluginSelectors): ExtractedFields | undefined {
+  const root = $(selectors.root).first();
+  if (!root.length) return undefined;
+
+  const text = (selector: string) => normalizeText(root.find(selector).first().text()) || undefined;
+  const lines = (selector: string) => {
+    const out = root
+      .find(selector)
+      .toArray()
+      .map((el) => normalizeText($(el).text()))
+      .filter(Boolean);
+    return out.length ? out : undefined;
+  };
+
+  const image = root.find(selectors.image).first();
+
+  return {
+    title: text(selectors.title),
+    description: text(selectors.description),
+    imageUrl: image.length ? imageSrc(image, base) : undefined,
+    ...servingsFields(text(selectors.servings)),
+    ingredients: lines(selectors.ingredients),
+    instructions: lines(selectors.instructions)
+  };
+}
+
+const WPRM_SELECTORS: PluginSelectors = {
+  root: '.wprm-recipe-container, .wprm-recipe',
+  title: '.wprm-recipe-name',
+  description: '.wprm-recipe-summary',
+  image: '.wprm-recipe-image img',
+  servings: '.wprm-recipe-servings-container, .wprm-recipe-servings',
+  ingredients: '.wprm-recipe-ingredient',
+  instructions: '.wprm-recipe-instruction-text'
+};
+
+const TASTY_RECIPES_SELECTORS: PluginSelectors = {
+  root: '.tasty-recipes',
+  title: '.tasty-recipes-title',
+  description: '.tasty-recipes-description',
+  image: '.tasty-recipes-image img',
+  servings: '.tasty-recipes-yield',
+  ingredients: '.tasty-recipes-ingredients li',
+  instructions: '.tasty-recipes-instructions li'
+};
+
+const MEDIAVINE_CREATE_SELECTORS: PluginSelectors = {
+  root: '.mv-create-card',
+  title: '.mv-create-title',
+  description: '.mv-create-description',
+  image: '.mv-create-image img, img.mv-create-image',
+  servings: '.mv-create-yield',
+  ingredients: '.mv-create-ingredients li',
+  instructions: '.mv-create-instructions li'
+};
+
+const HTML_EXTRACTORS: Array<{
+  name: ScrapeExtractor;
+  extract: ($: cheerio.CheerioAPI, base: URL) => ExtractedFields | undefined;
+}> = [
+  { name: 'microdata', extract: ($, base) => fromAttributes($, base, MICRODATA) },
+  { name: 'rdfa', extract: ($, base) => fromAttributes($, base, RDFA) },
+  { name: 'wprm', extract: ($, base) => fromPlugin($, base, WPRM_SELECTORS) },
+  { name: 'tasty-recipes', extract: ($, base) => fromPlugin($, base, TASTY_RECIPES_SELECTORS) },
+  { name: 'mediavine-create', extract: ($, base) => fromPlugin($, base, MEDIAVINE_CREATE_SELECTORS) }
+];
+
+// Non-2xx response from the recipe site; the status tells retryable (5xx, 429) from permanent failures.
+export class ScrapeFetchError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`Fetch failed (${status})`);
+    this.status = status;
   }
+}
 
-  const dec = s.match(/(\d+(?:\.\d+)?)/);
-  if (dec) {
-    const n = Number(dec[1]);
-    if (Number.isFinite(n)) return n;
+// The page couldn't be downloaded at all: DNS, connection or TLS failure, or the body broke off.
+export class ScrapeNetworkError extends Error {
+  constructor(cause: unknown) {
+    // undici's "fetch failed" keeps the useful part (ECONNREFUSED, ENOTFOUND...) in its own cause.
+    const inner = cause instanceof Error && cause.cause instanceof Error ? cause.cause : cause;
+    super(`Fetch failed: ${inner instanceof Error ? inner.message : String(inner)}`, { cause });
   }
+}
 
-  return undefined;
+const FETCH_TIMEOUT_MS = 20_000;
+
+// fetch() rejects with a TypeError for network failures; our own timeout (a TimeoutError) is left as it is.
+function networkError(err: unknown): unknown {
+  return err instanceof Error && err.name === 'TimeoutError' ? err : new ScrapeNetworkError(err);
 }
 
 export async function scrapeRecipe(sourceUrl: string): Promise<ScrapedRecipe> {
+  // A malformed URL fails here rather than inside fetch, where it would pass for a network error.
   const url = new URL(sourceUrl);
-
-  const res = await fetch(sourceUrl, {
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
     headers: {
       // Many recipe sites block default node user agents.
       'user-agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123 Safari/537.36',
@@ -253,15 +567,32 @@ export async function scrapeRecipe(sourceUrl: string): Promise<ScrapedRecipe> {
       'accept-language': 'en-US,en;q=0.9'
     },
     redirect: 'follow'
+  }).catch((err) => {
+    throw networkError(err);
   });
 
   if (!res.ok) {
-    throw new Error(`Fetch failed (${res.status})`);
+    throw new ScrapeFetchError(res.status);
   }
 
-  const html = await res.text();
+  const html = await res.text().catch((err) => {
+    throw networkError(err);
+  });
+  return extractRecipe(html, sourceUrl);
+}
+
+/**
+ * Extract a recipe from an already fetched page. Kept separate from the fetch
+ * so site adapters can be checked against saved pages offline.
+ */
+export function extractRecipe(html: string, sourceUrl: string): ScrapedRecipe {
+  const url = new URL(sourceUrl);
+  const adapter = findSiteAdapter(url.hostname);
   const $ = cheerio.load(html);
 
+  removeJunkElements($);
+  adapter?.preprocess?.($, url);
+
   const scripts = $('script[type="application/ld+json"]')
     .toArray()
     .map((el) => $(el).text())
@@ -286,35 +617,39 @@ export async function scrapeRecipe(sourceUrl: string): Promise<ScrapedRecipe> {
 
   const titleFromHtml = normalizeText($('meta[property="og:title"]').attr('content') || $('title').text() || 'Untitled recipe');
 
-  if (!recipeNode) {
-    return {
-      title: titleFromHtml,
-      imageUrl: pickMetaImageUrl($, url),
-      sourceHost: url.hostname
-    };
+  let extractor: ScrapeExtractor = 'meta';
+  let fields: ExtractedFields | undefined;
+
+  if (recipeNode) {
+    extractor = 'json-ld';
+    fields = fromJsonLd(recipeNode, url);
+  } else {
+    // Pages without JSON-LD: take the first markup flavour that yields an actual recipe.
+    for (const fallback of HTML_EXTRACTORS) {
+      const extracted = fallback.extract($, url);
+      if (extracted && (extracted.ingredients?.length || extracted.instructions?.length)) {
+        extractor = fallback.name;
+        fields = extracted;
+        break;
+      }
+    }
   }
 
-  const title = typeof recipeNode['name'] === 'string' ? normalizeText(recipeNode['name']) : titleFromHtml;
-  const description = typeof recipeNode['description'] === 'string' ? normalizeText(recipeNode['description']) : undefined;
-  const servingsRaw =
-    toFirstString(recipeNode['recipeYield']) ??
-    toFirstString(recipeNode['yield']) ??
-    toFirstString(recipeNode['recipeServings']) ??
-    toFirstString(recipeNode['servings']);
-  const servingsText = servingsRaw ? normalizeText(servingsRaw) : undefined;
-  const servings = servingsText ? parseFirstNumber(servingsText) : undefined;
-  const ingredients = toStringArray(recipeNode['recipeIngredient']);
-  const instructions = parseInstructions(recipeNode['recipeInstructions']);
-  const imageUrl = pickImageUrl(recipeNode['image'], url) ?? pickMetaImageUrl($, url);
+  const overrides = adapter?.extract?.($, url, fields);
+  if (overrides) {
+    extractor = 'site';
+    fields = { ...fields, ...overrides };
+  }
 
-  return {
-    title,
-    description,
-    imageUrl,
-    servings,
-    servingsText,
-    ingredients,
-    instructions,
-    sourceHost: url.hostname
+  const recipe: ScrapedRecipe = {
+    ...fields,
+    title: fields?.title || titleFromHtml,
+    imageUrl: fields?.imageUrl ?? pickMetaImageUrl($, url),
+    sourceHost: url.hostname,
+    extractor,
+    siteAdapter: adapter?.name
   };
+
+  const cleaned = cleanRecipeText(recipe);
+  return adapter?.cleanup ? adapter.cleanup(cleaned) : cleaned;
 }
@@ -0,0 +1,84 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+
+import type { Request } from 'express';
+
+import { SESSION_TTL_SECONDS, createSessionToken, sessionFromRequest } from './auth.js';
+import { prisma } from './db.js';
+
+// lastSeenAt is only rewritten once it is older than this, so most requests stay read-only.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
+/** Start a session for a freshly signed-in user; returns the cookie token. */
+export async function createSession(userId: number, req: Request): Promise<string> {
+  const secret = randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  // Expired rows of this user are dropped here rather than by a separate sweeper.
+  await prisma.session.deleteMany({ where: { userId, expiresAt: { lte: now } } });
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      secretHash: hashSecret(secret).toString('hex'),
+      expiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000),
+      lastSeenAt: now,
+      userAgent: req.get('user-agent')?.slice(0, 300) ?? null,
+      ip: req.ip ?? null
+    },
+    select: { id: true }
+  });
+
+  return createSessionToken(session.id, secret);
+}
+
+export type ActiveSession = {
+  id: number;
+  userId: number;
+  // Set when the cookie was signed with a previous SESSION_SECRET: the same session, re-signed.
+  reissuedToken: string | null;
+};
+
+/**
+ * The stored session behind the request's cookie, or null when there is no
+ * cookie or it is forged, expired or revoked.
+ */
+export async function sessionFromStore(req: Request): Promise<ActiveSession | null> {
+  const token = sessionFromRequest(req);
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: token.sessionId },
+    select: { id: true, userId: true, secretHash: true, expiresAt: true, lastSeenAt: true }
+  });
+  const now = new Date();
+  if (
+    !session ||
+    session.expiresAt <= now ||
+    !timingSafeEqual(Buffer.from(session.secretHash, 'hex'), hashSecret(token.secret))
+  ) {
+    return null;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await prisma.session.update({ where: { id: session.id }, data: { lastSeenAt: now, ip: req.ip ?? null } });
+  }
+
+  return {
+    id: session.id,
+    userId: session.userId,
+    reissuedToken: token.stale ? createSessionToken(session.id, token.secret) : null
+  };
+}
+
+export async function listSessions(userId: number) {
+  return prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: 'desc' },
+    select: { id: true, createdAt: true, lastSeenAt: true, expiresAt: true, userAgent: true, ip: true }
+  });
+}
@@ -0,0 +1,168 @@
+import {
+  formatQuantity,
+  formatUnit,
+  humanizeAmount,
+  parseIngredient,
+  toBaseAmount,
+  unitDimension,
+  unitSystem
+} from '@meal-rotation/ingredients';
+import type { UnitSystem } from '@meal-rotation/ingredients';
+
+export type ShoppingSource = {
+  recipeId: number;
+  multiplier: number;
+  ingredients: string[];
+};
+
+export type ShoppingItemSource = {
+  recipeId: number;
+  line: string;
+};
+
+export type AggregatedItem = {
+  category: string;
+  item: string;
+  quantity: number | null;
+  unit: string | null;
+  text: string;
+  sources: ShoppingItemSource[];
+};
+
+export const CATEGORIES = ['Produce', 'Meat & Fish', 'Dairy & Eggs', 'Bakery', 'Pantry', 'Spices', 'Other'] as const;
+
+const CATEGORY_KEYWORDS: Array<[(typeof CATEGORIES)[number], string[]]> = [
+  [
+    'Produce',
+    ['onion', 'garlic', 'tomato', 'potato', 'carrot', 'celery', 'lettuce', 'spinach', 'bell pepper', 'jalape', 'lemon', 'lime', 'apple', 'banana', 'ginger', 'parsley', 'cilantro', 'basil', 'mint', 'scallion', 'shallot', 'mushroom', 'zucchini', 'cucumber', 'avocado', 'cabbage', 'broccoli', 'kale', 'leek', 'berry', 'herb']
+  ],
+  [
+    'Spices',
+    ['salt', 'pepper', 'paprika', 'cumin', 'cinnamon', 'oregano', 'thyme', 'chili powder', 'turmeric', 'nutmeg', 'bay leaf', 'coriander', 'cayenne', 'clove']
+  ],
+  ['Meat & Fish', ['chicken', 'beef', 'pork', 'lamb', 'bacon', 'sausage', 'turkey', 'salmon', 'tuna', 'shrimp', 'prawn', 'fish', 'mince', 'ham']],
+  ['Dairy & Eggs', ['milk', 'butter', 'cream', 'cheese', 'yogurt', 'yoghurt', 'egg', 'parmesan', 'mozzarella', 'feta', 'ricotta']],
+  ['Bakery', ['bread', 'bun', 'tortilla', 'pita', 'baguette']],
+  [
+    'Pantry',
+    ['flour', 'sugar', 'oil', 'vinegar', 'rice', 'pasta', 'noodle', 'stock', 'broth', 'bean', 'lentil', 'chickpea', 'sauce', 'honey', 'syrup', 'yeast', 'baking', 'oat', 'nut', 'mustard', 'water']
+  ]
+];
+
+export function categorize(item: string): string {
+  const lower = item.toLowerCase();
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    if (keywords.some((k) => new RegExp(`\\b${k}`, 'i').test(lower))) return category;
+  }
+  return 'Other';
+}
+
+function singularize(word: string): string {
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/(?:ch|sh|x|ss|o)es$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// Key used to merge lines across recipes: "Onions" and "onion" are the same thing to buy.
+export function itemKey(item: string): string {
+  const base = item
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return base.split(' ').map(singularize).join(' ');
+}
+
+type Bucket = {
+  item: string;
+  key: string;
+  // For volume/mass: running total in base units. Otherwise: total in `unit`.
+  amount: number | null;
+  unit: string | null;
+  dimension: 'volume' | 'mass' | null;
+  system: UnitSystem | null;
+  sources: ShoppingItemSource[];
+};
+
+function bucketText(bucket: { item: string; quantity: number | null; unit: string | null }): string {
+  if (bucket.quantity === null) return bucket.item;
+  const unit = bucket.unit ? formatUnit(bucket.unit, bucket.quantity) : null;
+  return [formatQuantity(bucket.quantity), unit, bucket.item].filter(Boolean).join(' ');
+}
+
+/**
+ * Merge ingredient lines across recipes. Volume/weight amounts are summed in
+ * base units and shown in `system`, or in the system of the first line that
+ * mentioned the item when no system is given.
+ */
+export function aggregateIngredients(sources: ShoppingSource[], system?: UnitSystem): AggregatedItem[] {
+  const buckets = new Map<string, Bucket>();
+
+  for (const source of sources) {
+    for (const line of source.ingredients) {
+      const parsed = parseIngredient(line);
+      const item = parsed.item;
+      const key = itemKey(parsed.item);
+      if (!key) continue;
+
+      // Round up ranges ("2-3 cloves"): better to have one left over than run short.
+      const rawQuantity = parsed.quantityMax ?? parsed.quantity;
+      const quantity = rawQuantity === null ? null : rawQuantity * source.multiplier;
+      const dimension = unitDimension(parsed.unit);
+      const convertible = quantity !== null && parsed.unit && (dimension === 'volume' || dimension === 'mass');
+
+      const bucketKey = convertible
+        ? `${key}|${dimension}`
+        : quantity === null
+          ? `${key}|none`
+          : `${key}|${parsed.unit ?? 'each'}`;
+
+      const existing = buckets.get(bucketKey);
+      const amount = convertible ? toBaseAmount(quantity!, parsed.unit!) : quantity;
+      const sourceRef = { recipeId: source.recipeId, line };
+
+      if (existing) {
+        if (existing.amount !== null && amount !== null) existing.amount += amount;
+        existing.sources.push(sourceRef);
+        continue;
+      }
+
+      buckets.set(bucketKey, {
+        item,
+        key,
+        amount,
+        unit: convertible ? null : parsed.unit,
+        dimension: convertible ? (dimension as 'volume' | 'mass') : null,
+        system: unitSystem(parsed.unit),
+        sources: [sourceRef]
+      });
+    }
+  }
+
+  const items = [...buckets.values()].map((bucket) => {
+    let quantity = bucket.amount;
+    let unit = bucket.unit;
+
+    if (bucket.dimension && bucket.amount !== null) {
+      const human = humanizeAmount(bucket.amount, bucket.dimension, system ?? bucket.system ?? 'metric');
+      quantity = human.quantity;
+      unit = human.unit;
+    }
+
+    return {
+      category: categorize(bucket.key),
+      item: bucket.item,
+      quantity,
+      unit,
+      text: bucketText({ item: bucket.item, quantity, unit }),
+      sources: bucket.sources
+    };
+  });
+
+  return items.sort(
+    (a, b) =>
+      CATEGORIES.indexOf(a.category as (typeof CATEGORIES)[number]) -
+        CATEGORIES.indexOf(b.category as (typeof CATEGORIES)[number]) || a.item.localeCompare(b.item)
+  );
+}
@@ -0,0 +1,34 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { SiteAdapter } from './common.js';
+
+function listItems($: CheerioAPI, selector: string): string[] | undefined {
+  const items = $(selector)
+    .first()
+    .find('li')
+    .toArray()
+    .map((li) => $(li).text().replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return items.length ? items : undefined;
+}
+
+// Blogger posts rarely carry recipe markup; family recipe blogs there are
+// usually a post with one bulleted ingredient list and one numbered method.
+export const blogger: SiteAdapter = {
+  name: 'blogger',
+  hosts: ['blogspot.com'],
+  extract: ($, _url, generic) => {
+    if (generic?.ingredients?.length) return undefined;
+
+    const ingredients = listItems($, '.post-body ul');
+    const instructions = listItems($, '.post-body ol');
+    if (!ingredients && !instructions) return undefined;
+
+    return {
+      ...generic,
+      title: $('.post-title').first().text().trim() || generic?.title,
+      ingredients,
+      instructions
+    };
+  }
+};
@@ -0,0 +1,71 @@
+import type { CheerioAPI } from 'cheerio';
+
+import type { ExtractedFields, ScrapedRecipe } from '../scrape.js';
+
+/**
+ * Site-specific scraping tweaks, picked by the page's host. Every hook is
+ * optional; the generic extraction runs either way.
+ */
+export type SiteAdapter = {
+  name: string;
+  // Hosts this adapter handles; subdomains (www., cooking., ...) match too.
+  hosts: string[];
+  // Mutate the parsed page before any extraction (drop widgets, unwrap markup).
+  preprocess?: ($: CheerioAPI, url: URL) => void;
+  // Return fields to use instead of the generic result, or undefined to keep it.
+  extract?: ($: CheerioAPI, url: URL, generic: ExtractedFields | undefined) => ExtractedFields | undefined;
+  // Final pass over the result, after the shared junk cleanup.
+  cleanup?: (recipe: ScrapedRecipe) => ScrapedRecipe;
+};
+
+export function hostMatches(host: string, adapterHost: string): boolean {
+  const h = host.toLowerCase();
+  return h === adapterHost || h.endsWith(`.${adapterHost}`);
+}
+
+// Widgets recipe plugins and ad networks put inside recipe cards. Removing them
+// up front keeps their text out of microdata and plugin extraction.
+const JUNK_SELECTORS = [
+  '.wprm-recipe-jump',
+  '.wprm-recipe-print',
+  '.wprm-recipe-pin',
+  '.tasty-recipes-jump-link',
+  '.tasty-recipes-print-button',
+  '.mv-create-jtr',
+  '.mv-ad-box',
+  '.adthrive-ad',
+  'ins.adsbygoogle'
+];
+
+export function removeJunkElements($: CheerioAPI): void {
+  $(JUNK_SELECTORS.join(', ')).remove();
+}
+
+// Whole lines that are page furniture rather than recipe content.
+const JUNK_LINES = [/^jump to (recipe|video)$/i, /^(print|pin|save) (this )?recipe$/i, /^advertisement$/i];
+
+// WordPress shortcodes for ad and video players sometimes leak into JSON-LD step text.
+const SHORTCODE = /\[\/?(adthrive|mv_|mediavine)[^\]]*\]/gi;
+
+export function dropLines(lines: string[] | undefined, patterns: RegExp[]): string[] | undefined {
+  if (!lines) return undefined;
+  const out = lines.filter((line) => !patterns.some((p) => p.test(line)));
+  return out.length ? out : undefined;
+}
+
+function cleanLines(lines: string[] | undefined): string[] | undefined {
+  return dropLines(
+    lines?.map((line) => line.replace(SHORTCODE, '').replace(/\s+/g, ' ').trim()).filter(Boolean),
+    JUNK_LINES
+  );
+}
+
+export function cleanRecipeText(recipe: ScrapedRecipe): ScrapedRecipe {
+  const description = recipe.description?.replace(/\s*\b(jump to recipe|print recipe)\b\s*/gi, ' ').trim();
+  return {
+    ...recipe,
+    description: description || undefined,
+    ingredients: cleanLines(recipe.ingredients),
+    instructions: cleanLines(recipe.instructions)
+  };
+}
@@ -0,0 +1,18 @@
+import { dropLines } from './common.js';
+import type { SiteAdapter } from './common.js';
+
+// Dotdash Meredith sites render step photos inline with a credit caption,
+// which ends up as extra "steps" like "Serious Eats / Vicky Wasik".
+const PHOTO_CREDITS = [/^dotdash meredith food studios$/i, /^(serious eats|simply recipes|allrecipes|eatingwell) \/ [^/]+$/i];
+
+export const dotdashMeredith: SiteAdapter = {
+  name: 'dotdash-meredith',
+  hosts: ['allrecipes.com', 'seriouseats.com', 'simplyrecipes.com', 'eatingwell.com', 'foodandwine.com'],
+  preprocess: ($) => {
+    $('figcaption, .figure-article-caption').remove();
+  },
+  cleanup: (recipe) => ({
+    ...recipe,
+    instructions: dropLines(recipe.instructions, PHOTO_CREDITS)
+  })
+};
@@ -0,0 +1,13 @@
+import { blogger } from './blogger.js';
+import { hostMatches } from './common.js';
+import type { SiteAdapter } from './common.js';
+import { dotdashMeredith } from './dotdash-meredith.js';
+
+export type { SiteAdapter } from './common.js';
+
+// One adapter per site (or family of sites sharing a CMS). Add new ones here.
+export const SITE_ADAPTERS: SiteAdapter[] = [dotdashMeredith, blogger];
+
+export function findSiteAdapter(host: string): SiteAdapter | undefined {
+  return SITE_ADAPTERS.find((adapter) => adapter.hosts.some((h) => hostMatches(host, h)));
+}
@@ -0,0 +1,82 @@
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from './db.js';
+import type { Pool } from './households.js';
+import { poolOwner, tagsInPool } from './households.js';
+
+export function cleanTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// "Weeknight", " weeknight" and "WEEKNIGHT" are one tag.
+export function tagKey(name: string): string {
+  return cleanTagName(name).toLowerCase();
+}
+
+// First spelling wins when a list repeats a tag in different case.
+function uniqueTagNames(names: string[]): string[] {
+  const byKey = new Map<string, string>();
+  for (const name of names.map(cleanTagName)) {
+    if (name && !byKey.has(tagKey(name))) byKey.set(tagKey(name), name);
+  }
+  return [...byKey.values()];
+}
+
+// Include for a recipe's tags, alphabetical; pair with tagNames().
+export const recipeTagsInclude = {
+  select: { tag: { select: { name: true } } },
+  orderBy: { tag: { key: 'asc' } }
+} satisfies Prisma.Recipe$tagsArgs;
+
+export function tagNames(tags: Array<{ tag: { name: string } }>): string[] {
+  return tags.map((t) => t.tag.name);
+}
+
+// Swap the RecipeTag rows of a loaded recipe for plain tag names, as the API returns them.
+export function withTagNames<T extends { tags: Array<{ tag: { name: string } }> }>(
+  recipe: T
+): Omit<T, 'tags'> & { tags: string[] } {
+  return { ...recipe, tags: tagNames(recipe.tags) };
+}
+
+// Unique lookup of a tag by key within the pool.
+export function tagWhereKey(pool: Pool, key: string): Prisma.TagWhereUniqueInput {
+  return pool.householdId
+    ? { householdId_key: { householdId: pool.householdId, key } }
+    : { userId_key: { userId: pool.userId, key } };
+}
+
+/**
+ * Nested write linking a new recipe to tags by name, creating the ones the
+ * pool doesn't have yet.
+ */
+export function connectTags(pool: Pool, names: string[]) {
+  return {
+    create: uniqueTagNames(names).map((name) => ({
+      tag: {
+        connectOrCreate: {
+          where: tagWhereKey(pool, tagKey(name)),
+          create: { ...poolOwner(pool), name, key: tagKey(name) }
+        }
+      }
+    }))
+  } satisfies Prisma.RecipeTagCreateNestedManyWithoutRecipeInput;
+}
+
+// Nested write replacing all of an existing recipe's tags.
+export function replaceTags(pool: Pool, names: string[]) {
+  return {
+    deleteMany: {},
+    ...connectTags(pool, names)
+  } satisfies Prisma.RecipeTagUpdateManyWithoutRecipeNestedInput;
+}
+
+// Every tag of the pool with how many recipes carry it, including unused ones.
+export async function listTags(pool: Pool) {
+  const tags = await prisma.tag.findMany({
+    where: tagsInPool(pool),
+    orderBy: { key: 'asc' },
+    select: { id: true, name: true, _count: { select: { recipes: true } } }
+  });
+  return tags.map((t) => ({ id: t.id, name: t.name, count: t._count.recipes }));
+}
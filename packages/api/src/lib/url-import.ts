@@ -0,0 +1,71 @@
+import * as cheerio from 'cheerio';
+
+export type ImportCandidate = {
+  // As it appeared in the input, for the report.
+  input: string;
+  // Normalized http(s) URL, or null when the input isn't one.
+  url: string | null;
+  // Bookmark title, used as a placeholder until the scrape finishes.
+  title?: string;
+};
+
+/**
+ * Canonical form used for de-duplication: http(s) only, no fragment, no
+ * trailing punctuation picked up from prose ("see https://x.com/pie.").
+ */
+export function normalizeImportUrl(raw: string): string | null {
+  const trimmed = raw.trim().replace(/[)\].,;:!?'"]+$/, '');
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function isBookmarksHtml(file: string): boolean {
+  return /<!DOCTYPE NETSCAPE-Bookmark-file/i.test(file) || /<a\s[^>]*href=/i.test(file);
+}
+
+function fromBookmarks(html: string): ImportCandidate[] {
+  const $ = cheerio.load(html);
+  return $('a[href]')
+    .toArray()
+    .map((el) => {
+      const href = $(el).attr('href') ?? '';
+      const title = $(el).text().replace(/\s+/g, ' ').trim();
+      return { input: href, url: normalizeImportUrl(href), title: title || undefined };
+    });
+}
+
+function fromText(text: string): ImportCandidate[] {
+  // One URL per line is the common case, but URLs inside notes are picked out too.
+  return text.split(/\r?\n/).flatMap((line): ImportCandidate[] => {
+    const matches = line.match(/https?:\/\/[^\s<>"]+/gi);
+    if (matches) return matches.map((m) => ({ input: m, url: normalizeImportUrl(m) }));
+    return line.trim() ? [{ input: line.trim(), url: null }] : [];
+  });
+}
+
+/**
+ * Turn an import request (explicit URL list and/or an uploaded plain-text or
+ * Netscape bookmarks file) into candidates, de-duplicated within the input.
+ * Repeats are dropped silently; the first occurrence keeps its title.
+ */
+export function collectImportCandidates(urls: string[], file: string | undefined): ImportCandidate[] {
+  const candidates = [
+    ...urls.map((u) => ({ input: u, url: normalizeImportUrl(u) })),
+    ...(file ? (isBookmarksHtml(file) ? fromBookmarks(file) : fromText(file)) : [])
+  ];
+
+  const seen = new Set<string>();
+  return candidates.filter((c) => {
+    // Invalid inputs (bookmarklets, stray words) stay so the report can list them.
+    if (!c.url) return true;
+    if (seen.has(c.url)) return false;
+    seen.add(c.url);
+    return true;
+  });
+}
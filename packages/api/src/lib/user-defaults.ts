@@ -1,9 +1,12 @@
 import { prisma } from './db.js';
+import { personalPool } from './households.js';
+import { connectTags, recipeTagsInclude, tagNames } from './tags.js';
 
 export async function ensureUserDefaults(userId: number): Promise<void> {
-  // Treat recipes with no owner as templates, and copy them into new accounts.
+  // Treat recipes with no owner as templates, and copy them into new accounts. A household's
+  // recipes lose their userId when the member who added them is deleted; those aren't templates.
   const templates = await prisma.recipe.findMany({
-    where: { userId: null },
+    where: { userId: null, householdId: null },
     select: {
       title: true,
       sourceUrl: true,
@@ -13,38 +16,72 @@ export async function ensureUserDefaults(userId: number): Promise<void> {
       servings: true,
       servingsText: true,
       ingredients: true,
+      ingredientsParsed: true,
       instructions: true,
+      prepMinutes: true,
+      cookMinutes: true,
+      totalMinutes: true,
+      cuisine: true,
+      category: true,
+      keywords: true,
+      nutrition: true,
+      author: true,
+      ratingValue: true,
+      ratingCount: true,
       scrapeStatus: true,
       scrapeError: true,
+      scrapeExtractor: true,
       lastScrapedAt: true,
       notes: true,
-      tags: true
+      tags: recipeTagsInclude,
+      manualFields: true
     },
     orderBy: { updatedAt: 'desc' }
   });
 
-  if (!templates.length) {
+  // The unique index ignores ownerless rows, so templates can repeat a URL; the newest wins.
+  const seen = new Set<string>();
+  const unique = templates.filter((r) => !r.sourceUrl || (!seen.has(r.sourceUrl) && !!seen.add(r.sourceUrl)));
+  if (!unique.length) {
     return;
   }
 
-  await prisma.recipe.createMany({
-    data: templates.map((r) => ({
-      userId,
-      title: r.title,
-      sourceUrl: r.sourceUrl,
-      sourceHost: r.sourceHost,
-      imageUrl: r.imageUrl,
-      description: r.description,
-      servings: r.servings,
-      servingsText: r.servingsText,
-      ingredients: r.ingredients ?? undefined,
-      instructions: r.instructions ?? undefined,
-      scrapeStatus: r.scrapeStatus,
-      scrapeError: r.scrapeError,
-      lastScrapedAt: r.lastScrapedAt,
-      notes: r.notes,
-      tags: r.tags ?? undefined
-    })),
-    skipDuplicates: true
-  });
+  // One create per recipe so each can bring its tags along; there are only a handful of templates.
+  await prisma.$transaction(
+    unique.map((r) =>
+      prisma.recipe.create({
+        data: {
+          userId,
+          title: r.title,
+          sourceUrl: r.sourceUrl,
+          sourceHost: r.sourceHost,
+          imageUrl: r.imageUrl,
+          description: r.description,
+          servings: r.servings,
+          servingsText: r.servingsText,
+          ingredients: r.ingredients ?? undefined,
+          ingredientsParsed: r.ingredientsParsed ?? undefined,
+          instructions: r.instructions ?? undefined,
+          prepMinutes: r.prepMinutes,
+          cookMinutes: r.cookMinutes,
+          totalMinutes: r.totalMinutes,
+          cuisine: r.cuisine ?? undefined,
+          category: r.category ?? undefined,
+          keywords: r.keywords ?? undefined,
+          nutrition: r.nutrition ?? undefined,
+          author: r.author,
+          ratingValue: r.ratingValue,
+          ratingCount: r.ratingCount,
+          scrapeStatus: r.scrapeStatus,
+          scrapeError: r.scrapeError,
+          scrapeExtractor: r.scrapeExtractor,
+          lastScrapedAt: r.lastScrapedAt,
+          notes: r.notes,
+          manualFields: r.manualFields ?? undefined,
+          tags: connectTags(personalPool(userId), tagNames(r.tags))
+        },
+        select: { id: true }
+      })
+    )
+  );
 }
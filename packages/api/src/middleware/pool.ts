@@ -0,0 +1,13 @@
+import type { RequestHandler } from 'express';
+
+import { loadPool } from '../lib/households.js';
+
+// Resolves which recipe pool the signed-in user works in; mount after requireAuth.
+export const attachPool: RequestHandler = (req, _res, next) => {
+  loadPool(req.userId!)
+    .then((pool) => {
+      req.pool = pool;
+      next();
+    })
+    .catch(next);
+};
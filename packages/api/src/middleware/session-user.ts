@@ -1,9 +1,11 @@
 import type { RequestHandler } from 'express';
 
-import { sessionFromRequest } from '../lib/auth.js';
-import { prisma } from '../lib/db.js';
+import { apiTokenFromBearer } from '../lib/api-tokens.js';
+import { serializeSessionCookie } from '../lib/auth.js';
+import { HttpError } from '../lib/http-error.js';
+import { sessionFromStore } from '../lib/sessions.js';
 
-export const attachSessionUser: RequestHandler = (req, _res, next) => {
+export const attachSessionUser: RequestHandler = (req, res, next) => {
   if (process.env.NODE_ENV === 'test') {
     req.userId = 1;
     next();
@@ -11,20 +13,29 @@ export const attachSessionUser: RequestHandler = (req, _res, next) => {
   }
 
   void (async () => {
-    const session = sessionFromRequest(req);
+    // Scripts send a personal API token; when they do, the cookie (if any) is ignored.
+    const bearer = /^Bearer\s+(.+)$/i.exec(req.get('authorization') ?? '')?.[1]?.trim();
+    if (bearer) {
+      const token = await apiTokenFromBearer(bearer);
+      if (!token) {
+        throw new HttpError(401, 'Invalid, expired or revoked API token');
+      }
+      req.userId = token.userId;
+      req.apiToken = token;
+      return;
+    }
+
+    const session = await sessionFromStore(req);
 
     if (session) {
-      const existing = await prisma.user.findUnique({
-        where: { id: session.userId },
-        select: { id: true }
-      });
+      req.userId = session.userId;
+      req.sessionId = session.id;
 
-      if (existing) {
-        req.userId = existing.id;
+      if (session.reissuedToken) {
+        res.append('Set-Cookie', serializeSessionCookie(session.reissuedToken));
       }
     }
   })()
     .then(() => next())
     .catch(next);
 };
-
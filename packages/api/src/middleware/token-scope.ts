@@ -0,0 +1,33 @@
+import type { RequestHandler } from 'express';
+
+import { tokenAllows } from '../lib/api-tokens.js';
+import type { ApiTokenArea } from '../lib/api-tokens.js';
+import { HttpError } from '../lib/http-error.js';
+
+/**
+ * Limits requests made with a personal API token to the token's scopes:
+ * GET/HEAD need read access to the area, anything else write access. A null
+ * area turns tokens away entirely. Cookie sessions pass straight through.
+ */
+export function tokenScope(area: ApiTokenArea | null): RequestHandler {
+  return (req, _res, next) => {
+    const token = req.apiToken;
+    if (!token) {
+      next();
+      return;
+    }
+
+    if (!area) {
+      next(new HttpError(403, 'API tokens can’t be used here; sign in instead'));
+      return;
+    }
+
+    const write = req.method !== 'GET' && req.method !== 'HEAD';
+    if (!tokenAllows(token.scopes, area, write)) {
+      next(new HttpError(403, `This token lacks the ${area}:${write ? 'write' : 'read'} scope`));
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,90 @@
+import express, { Router } from 'express';
+import { z } from 'zod';
+
+import { UnitPreference } from '@prisma/client';
+import {
+  buildAccountArchive,
+  buildAccountExport,
+  importAccountExport,
+  parseAccountExport
+} from '../lib/account-export.js';
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import { requireEditor } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import { formatDate, today } from '../lib/plans.js';
+
+const router = Router();
+
+const preferencesSchema = z.object({
+  unitPreference: z.nativeEnum(UnitPreference)
+});
+
+router.get(
+  '/preferences',
+  asyncRoute(async (req, res) => {
+    const preferences = await prisma.user.findUniqueOrThrow({
+      where: { id: req.userId! },
+      select: { unitPreference: true }
+    });
+    res.json({ preferences });
+  })
+);
+
+router.put(
+  '/preferences',
+  asyncRoute(async (req, res) => {
+    const body = preferencesSchema.parse(req.body);
+    const preferences = await prisma.user.update({
+      where: { id: req.userId! },
+      data: { unitPreference: body.unitPreference },
+      select: { unitPreference: true }
+    });
+    res.json({ preferences });
+  })
+);
+
+const exportQuerySchema = z.object({
+  images: z
+    .enum(['0', '1', 'true', 'false'])
+    .optional()
+    .transform((v) => v === '1' || v === 'true')
+});
+
+router.get(
+  '/export',
+  asyncRoute(async (req, res) => {
+    const query = exportQuerySchema.parse(req.query);
+    const data = await buildAccountExport(req.pool!);
+    const name = `meal-rotation-${formatDate(today())}`;
+
+    if (query.images) {
+      const archive = await buildAccountArchive(data);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${name}.zip"`);
+      res.send(Buffer.from(archive));
+      return;
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.json"`);
+    res.json(data);
+  })
+);
+
+router.post(
+  '/import',
+  express.raw({ type: () => true, limit: '100mb' }),
+  asyncRoute(async (req, res) => {
+    const body: Buffer | null = Buffer.isBuffer(req.body) ? req.body : null;
+    if (!body?.length) {
+      throw new HttpError(400, 'Send the export file as the request body');
+    }
+
+    const pool = req.pool!;
+    requireEditor(pool);
+    const report = await importAccountExport(pool, parseAccountExport(body));
+    res.json({ report });
+  })
+);
+
+export default router;
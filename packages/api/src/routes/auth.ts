@@ -2,25 +2,94 @@ import { Router } from 'express';
 import { z } from 'zod';
 
 import {
-  createSessionToken,
   hashPassword,
+  oidcFlowFromRequest,
+  serializeClearedOidcFlowCookie,
   serializeClearedSessionCookie,
+  serializeOidcFlowCookie,
   serializeSessionCookie,
   sessionFromRequest,
   verifyPassword
 } from '../lib/auth.js';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../lib/account-emails.js';
+import { API_TOKEN_SCOPES, createApiToken, listApiTokens } from '../lib/api-tokens.js';
+import type { ApiTokenScope } from '../lib/api-tokens.js';
+import { appLink } from '../lib/app-url.js';
 import { asyncRoute } from '../lib/async-route.js';
+import { consumeAuthToken } from '../lib/auth-tokens.js';
 import { prisma } from '../lib/db.js';
 import { HttpError } from '../lib/http-error.js';
+import { listIdentities, resolveOidcUser } from '../lib/identities.js';
+import { auditFailedLogin, beginLoginAttempt, recordLoginSuccess } from '../lib/login-throttle.js';
+import {
+  OIDC_PROVIDER_NAME,
+  authorizationUrl,
+  createOidcFlow,
+  exchangeCode,
+  oidcEnabled,
+  parseOidcFlow,
+  serializeOidcFlow
+} from '../lib/oidc.js';
+import { addDays } from '../lib/plans.js';
+import { createSession, listSessions } from '../lib/sessions.js';
+import { requireAuth } from '../middleware/require-auth.js';
 import { ensureUserDefaults } from '../lib/user-defaults.js';
 
 const router = Router();
 
+const emailSchema = z.string().trim().email().transform((value) => value.toLowerCase());
+const passwordSchema = z.string().min(8).max(128);
+
 const credentialsSchema = z.object({
-  email: z.string().trim().email().transform((value) => value.toLowerCase()),
-  password: z.string().min(8).max(128)
+  email: emailSchema,
+  password: passwordSchema
+});
+
+const resetRequestSchema = z.object({
+  email: emailSchema
+});
+
+const resetSchema = z.object({
+  token: z.string().trim().min(1).max(200),
+  password: passwordSchema
+});
+
+const verifySchema = z.object({
+  token: z.string().trim().min(1).max(200)
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1).max(128),
+  newPassword: passwordSchema
 });
 
+const apiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES as [ApiTokenScope, ...ApiTokenScope[]]))
+    .min(1)
+    .transform((scopes) => [...new Set(scopes)]),
+  // Omitted for a token that doesn't expire.
+  expiresInDays: z.number().int().min(1).max(3650).optional()
+});
+
+const userSelect = {
+  id: true,
+  email: true,
+  emailVerifiedAt: true,
+  unitPreference: true
+} as const;
+
+// A failed email shouldn't fail the request that triggered it; the user can ask again.
+async function sendQuietly(send: () => Promise<void>): Promise<void> {
+  try {
+    await send();
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error('Sending email failed', err);
+  }
+}
+
 router.post(
   '/register',
   asyncRoute(async (req, res) => {
@@ -41,15 +110,13 @@ router.post(
         email: body.email,
         passwordHash
       },
-      select: {
-        id: true,
-        email: true
-      }
+      select: userSelect
     });
 
     await ensureUserDefaults(user.id);
+    await sendQuietly(() => sendVerificationEmail(user));
 
-    res.setHeader('Set-Cookie', serializeSessionCookie(createSessionToken(user.id)));
+    res.setHeader('Set-Cookie', serializeSessionCookie(await createSession(user.id, req)));
     res.status(201).json({ user });
   })
 );
@@ -58,59 +125,360 @@ router.post(
   '/login',
   asyncRoute(async (req, res) => {
     const body = credentialsSchema.parse(req.body);
+    const ip = req.ip ?? 'unknown';
 
     const user = await prisma.user.findUnique({
       where: { email: body.email },
-      select: {
-        id: true,
-        email: true,
-        passwordHash: true
-      }
+      select: { ...userSelect, passwordHash: true }
     });
 
-    if (!user || !(await verifyPassword(body.password, user.passwordHash))) {
+    // Checked before the password so a throttled client learns nothing, even with the right one.
+    const retryAfterMs = await beginLoginAttempt(ip, body.email);
+    if (retryAfterMs > 0) {
+      await auditFailedLogin(req, body.email, 'throttled', user?.id ?? null);
+      res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+      throw new HttpError(429, 'Too many sign-in attempts; try again later');
+    }
+
+    if (!user?.passwordHash || !(await verifyPassword(body.password, user.passwordHash))) {
+      await auditFailedLogin(req, body.email, user ? 'bad_password' : 'unknown_email', user?.id ?? null);
       throw new HttpError(401, 'Invalid email or password');
     }
 
-    res.setHeader('Set-Cookie', serializeSessionCookie(createSessionToken(user.id)));
+    await recordLoginSuccess(body.email, ip);
+
+    res.setHeader('Set-Cookie', serializeSessionCookie(await createSession(user.id, req)));
     res.json({
       user: {
         id: user.id,
-        email: user.email
+        email: user.email,
+        emailVerifiedAt: user.emailVerifiedAt,
+        unitPreference: user.unitPreference
       }
     });
   })
 );
 
-router.post('/logout', (_req, res) => {
-  res.setHeader('Set-Cookie', serializeClearedSessionCookie());
-  res.json({ ok: true });
-});
+// Always answers the same way, so it can't be used to find out who has an account.
+router.post(
+  '/password-reset',
+  asyncRoute(async (req, res) => {
+    const body = resetRequestSchema.parse(req.body);
 
-router.get(
-  '/me',
+    const user = await prisma.user.findUnique({ where: { email: body.email }, select: { id: true, email: true } });
+    if (user) {
+      await sendQuietly(() => sendPasswordResetEmail(user));
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+/**
+ * Sets a new password from the emailed link. Every existing session and API
+ * token is revoked (whoever had the old password loses access) and this
+ * browser is signed in fresh.
+ */
+router.post(
+  '/password-reset/confirm',
   asyncRoute(async (req, res) => {
-    const session = sessionFromRequest(req);
+    const body = resetSchema.parse(req.body);
 
-    if (!session) {
-      res.json({ user: null });
-      return;
+    const userId = await consumeAuthToken(body.token, 'password_reset');
+    if (!userId) {
+      throw new HttpError(400, 'This reset link is invalid or has expired; ask for a new one');
     }
 
-    const user = await prisma.user.findUnique({
-      where: { id: session.userId },
-      select: {
-        id: true,
-        email: true
-      }
+    const passwordHash = await hashPassword(body.password);
+    await prisma.$transaction([
+      prisma.session.deleteMany({ where: { userId } }),
+      prisma.apiToken.deleteMany({ where: { userId } }),
+      prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+      // Following the link proves the address works.
+      prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } })
+    ]);
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: userSelect });
+    await recordLoginSuccess(user.email);
+
+    res.setHeader('Set-Cookie', serializeSessionCookie(await createSession(user.id, req)));
+    res.json({ user });
+  })
+);
+
+// Works signed out too: the link may be opened on another device.
+router.post(
+  '/verify-email/confirm',
+  asyncRoute(async (req, res) => {
+    const body = verifySchema.parse(req.body);
+
+    const userId = await consumeAuthToken(body.token, 'email_verification');
+    if (!userId) {
+      throw new HttpError(400, 'This verification link is invalid or has expired; ask for a new one');
+    }
+
+    await prisma.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: new Date() } });
+    res.json({ ok: true });
+  })
+);
+
+router.post(
+  '/verify-email',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: req.userId! },
+      select: { id: true, email: true, emailVerifiedAt: true }
     });
+    if (user.emailVerifiedAt) {
+      throw new HttpError(409, 'Your email is already verified');
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ ok: true });
+  })
+);
+
+// Other devices are signed out; this one stays signed in.
+router.post(
+  '/change-password',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const body = changePasswordSchema.parse(req.body);
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { passwordHash: true } });
+    if (!user.passwordHash) {
+      throw new HttpError(409, 'Your account has no password yet; use “Forgot password?” to set one');
+    }
+    if (!(await verifyPassword(body.currentPassword, user.passwordHash))) {
+      throw new HttpError(403, 'Current password is incorrect');
+    }
+
+    const passwordHash = await hashPassword(body.newPassword);
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+      prisma.session.deleteMany({ where: { userId, id: { not: req.sessionId } } }),
+      // Tokens minted by whoever knew the old password stop working too.
+      prisma.apiToken.deleteMany({ where: { userId } }),
+      // A reset link sent before the change shouldn't undo it.
+      prisma.authToken.deleteMany({ where: { userId, purpose: 'password_reset', usedAt: null } })
+    ]);
+
+    res.json({ ok: true });
+  })
+);
+
+router.post(
+  '/logout',
+  asyncRoute(async (req, res) => {
+    if (req.sessionId) {
+      await prisma.session.deleteMany({ where: { id: req.sessionId } });
+    }
+
+    res.setHeader('Set-Cookie', serializeClearedSessionCookie());
+    res.json({ ok: true });
+  })
+);
+
+// Revokes every session of the user, this one included.
+router.post(
+  '/logout-all',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    await prisma.session.deleteMany({ where: { userId: req.userId! } });
+
+    res.setHeader('Set-Cookie', serializeClearedSessionCookie());
+    res.json({ ok: true });
+  })
+);
+
+router.get(
+  '/sessions',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const sessions = await listSessions(req.userId!);
+    res.json({ sessions: sessions.map((s) => ({ ...s, current: s.id === req.sessionId })) });
+  })
+);
+
+router.delete(
+  '/sessions/:id',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
 
-    if (!user) {
+    const result = await prisma.session.deleteMany({ where: { id, userId: req.userId! } });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Session not found');
+    }
+
+    if (id === req.sessionId) {
       res.setHeader('Set-Cookie', serializeClearedSessionCookie());
+    }
+    res.json({ ok: true });
+  })
+);
+
+// Which sign-in options the login page should offer.
+router.get('/providers', (_req, res) => {
+  res.json({ oidc: oidcEnabled() ? { name: OIDC_PROVIDER_NAME } : null });
+});
+
+/**
+ * Starts SSO: a browser navigation, answered with a redirect to the issuer.
+ * With ?link=1 a signed-in user adds the identity to their account instead
+ * of signing in with it.
+ */
+router.get(
+  '/oidc/start',
+  asyncRoute(async (req, res) => {
+    if (!oidcEnabled()) {
+      throw new HttpError(404, 'Single sign-on is not configured');
+    }
+    const linking = req.query.link === '1';
+    if (linking && !req.userId) {
+      throw new HttpError(401, 'Sign in first to link an account');
+    }
+
+    const flow = createOidcFlow(linking ? req.userId! : null);
+    const url = await authorizationUrl(flow);
+    res.setHeader('Set-Cookie', serializeOidcFlowCookie(serializeOidcFlow(flow)));
+    res.redirect(302, url);
+  })
+);
+
+// The issuer sends the browser back here; problems are reported to the app as ?sso_error=.
+router.get('/oidc/callback', async (req, res) => {
+  const cookies = [serializeClearedOidcFlowCookie()];
+  try {
+    const flow = parseOidcFlow(oidcFlowFromRequest(req) ?? '');
+    if (!flow || req.query.state !== flow.state) {
+      throw new HttpError(400, 'The sign-in took too long or was started elsewhere; try again');
+    }
+    if (typeof req.query.error === 'string') {
+      const description = req.query.error_description;
+      throw new HttpError(400, typeof description === 'string' ? description : `Sign-in was refused (${req.query.error})`);
+    }
+    if (typeof req.query.code !== 'string') {
+      throw new HttpError(400, 'The identity provider sent no authorization code');
+    }
+    // A link started by one user must not attach the identity to whoever is signed in now.
+    if (flow.linkUserId && flow.linkUserId !== req.userId) {
+      throw new HttpError(409, 'You were signed out before the link finished; sign in and try again');
+    }
+
+    const claims = await exchangeCode(req.query.code, flow);
+    const userId = await resolveOidcUser(claims, flow.linkUserId);
+    if (!flow.linkUserId) {
+      cookies.push(serializeSessionCookie(await createSession(userId, req)));
+    }
+
+    res.setHeader('Set-Cookie', cookies);
+    res.redirect(302, appLink());
+  } catch (err) {
+    if (!(err instanceof HttpError)) {
+      // eslint-disable-next-line no-console
+      console.error('SSO sign-in failed', err);
+    }
+    const message = err instanceof HttpError ? err.message : `Signing in with ${OIDC_PROVIDER_NAME} failed`;
+    res.setHeader('Set-Cookie', cookies);
+    res.redirect(302, appLink({ sso_error: message }));
+  }
+});
+
+router.get(
+  '/identities',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    res.json({ identities: await listIdentities(req.userId!) });
+  })
+);
+
+router.delete(
+  '/identities/:id',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const userId = req.userId!;
+    const [user, identities] = await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { passwordHash: true } }),
+      listIdentities(userId)
+    ]);
+    if (!identities.some((identity) => identity.id === id)) {
+      throw new HttpError(404, 'Linked account not found');
+    }
+    if (!user.passwordHash && identities.length === 1) {
+      throw new HttpError(409, 'Set a password first, or you would have no way to sign in');
+    }
+
+    await prisma.userIdentity.delete({ where: { id } });
+    res.json({ ok: true });
+  })
+);
+
+// Personal API tokens; managed from a signed-in browser only (tokens are refused on /auth).
+router.get(
+  '/tokens',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    res.json({ tokens: await listApiTokens(req.userId!), scopes: API_TOKEN_SCOPES });
+  })
+);
+
+// The token is returned once; only its hash is stored.
+router.post(
+  '/tokens',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const body = apiTokenSchema.parse(req.body);
+    const expiresAt = body.expiresInDays ? addDays(new Date(), body.expiresInDays) : null;
+
+    const created = await createApiToken(req.userId!, { name: body.name, scopes: body.scopes, expiresAt });
+    res.status(201).json(created);
+  })
+);
+
+router.delete(
+  '/tokens/:id',
+  requireAuth,
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const result = await prisma.apiToken.deleteMany({ where: { id, userId: req.userId! } });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Token not found');
+    }
+    res.json({ ok: true });
+  })
+);
+
+router.get(
+  '/me',
+  asyncRoute(async (req, res) => {
+    if (!req.userId) {
+      // A cookie that didn't resolve to a session is expired or revoked; drop it.
+      if (sessionFromRequest(req)) {
+        res.setHeader('Set-Cookie', serializeClearedSessionCookie());
+      }
       res.json({ user: null });
       return;
     }
 
+    const user = await prisma.user.findUnique({
+      where: { id: req.userId },
+      select: userSelect
+    });
+
     res.json({ user });
   })
 );
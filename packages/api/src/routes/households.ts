@@ -0,0 +1,289 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { HouseholdRole } from '@prisma/client';
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import {
+  INVITE_TTL_DAYS,
+  createInviteToken,
+  dissolveHousehold,
+  hashInviteToken,
+  loadPool,
+  mergePoolIntoHousehold
+} from '../lib/households.js';
+import type { Pool } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import { addDays } from '../lib/plans.js';
+
+const router = Router();
+
+// Merging a large pool touches every recipe, tag and plan of the joining user.
+const MERGE_TIMEOUT_MS = 120_000;
+
+const nameSchema = z.object({
+  name: z.string().trim().min(1).max(80)
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().email().transform((value) => value.toLowerCase()).optional(),
+  role: z.nativeEnum(HouseholdRole).default('editor')
+});
+
+const joinSchema = z.object({
+  token: z.string().trim().min(1).max(200)
+});
+
+const roleSchema = z.object({
+  role: z.nativeEnum(HouseholdRole)
+});
+
+function parseId(raw: string | undefined): number {
+  const id = Number.parseInt(raw ?? '', 10);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, 'Invalid id');
+  }
+  return id;
+}
+
+function requireHousehold(pool: Pool): number {
+  if (!pool.householdId) {
+    throw new HttpError(404, 'You are not in a household');
+  }
+  return pool.householdId;
+}
+
+function requireOwner(pool: Pool): number {
+  const householdId = requireHousehold(pool);
+  if (pool.role !== 'owner') {
+    throw new HttpError(403, 'Only household owners can do that');
+  }
+  return householdId;
+}
+
+async function loadHousehold(pool: Pool) {
+  if (!pool.householdId) {
+    return null;
+  }
+
+  const household = await prisma.household.findUniqueOrThrow({
+    where: { id: pool.householdId },
+    select: {
+      id: true,
+      name: true,
+      createdAt: true,
+      members: {
+        orderBy: { createdAt: 'asc' },
+        select: { userId: true, role: true, createdAt: true, user: { select: { email: true } } }
+      },
+      // Pending invites are only listed for owners, who are the ones able to revoke them.
+      invites:
+        pool.role === 'owner'
+          ? {
+              where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+              orderBy: { createdAt: 'desc' },
+              select: { id: true, email: true, role: true, expiresAt: true, createdAt: true }
+            }
+          : false
+    }
+  });
+
+  return {
+    id: household.id,
+    name: household.name,
+    createdAt: household.createdAt,
+    role: pool.role,
+    members: household.members.map((m) => ({ userId: m.userId, email: m.user.email, role: m.role, joinedAt: m.createdAt })),
+    invites: household.invites ?? []
+  };
+}
+
+router.get(
+  '/',
+  asyncRoute(async (req, res) => {
+    res.json({ household: await loadHousehold(req.pool!) });
+  })
+);
+
+// Starting a household moves the user's recipes, tags and plans into it.
+router.post(
+  '/',
+  asyncRoute(async (req, res) => {
+    const body = nameSchema.parse(req.body);
+    const userId = req.userId!;
+    if (req.pool!.householdId) {
+      throw new HttpError(409, 'Leave your current household first');
+    }
+
+    const household = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.household.create({
+          data: { name: body.name, members: { create: { userId, role: 'owner' } } },
+          select: { id: true }
+        });
+        await mergePoolIntoHousehold(tx, userId, created.id);
+        return created;
+      },
+      { timeout: MERGE_TIMEOUT_MS }
+    );
+
+    res.status(201).json({ household: await loadHousehold({ userId, householdId: household.id, role: 'owner' }) });
+  })
+);
+
+router.patch(
+  '/',
+  asyncRoute(async (req, res) => {
+    const body = nameSchema.parse(req.body);
+    const householdId = requireOwner(req.pool!);
+    await prisma.household.update({ where: { id: householdId }, data: { name: body.name } });
+    res.json({ household: await loadHousehold(req.pool!) });
+  })
+);
+
+// The token is returned once; only its hash is stored.
+router.post(
+  '/invites',
+  asyncRoute(async (req, res) => {
+    const body = inviteSchema.parse(req.body ?? {});
+    const householdId = requireOwner(req.pool!);
+    const token = createInviteToken();
+
+    const invite = await prisma.householdInvite.create({
+      data: {
+        householdId,
+        createdById: req.userId!,
+        tokenHash: hashInviteToken(token),
+        email: body.email ?? null,
+        role: body.role,
+        expiresAt: addDays(new Date(), INVITE_TTL_DAYS)
+      },
+      select: { id: true, email: true, role: true, expiresAt: true, createdAt: true }
+    });
+
+    res.status(201).json({ invite, token });
+  })
+);
+
+router.delete(
+  '/invites/:id',
+  asyncRoute(async (req, res) => {
+    const householdId = requireOwner(req.pool!);
+    const result = await prisma.householdInvite.deleteMany({
+      where: { id: parseId(req.params.id), householdId, acceptedAt: null }
+    });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Invite not found');
+    }
+    res.json({ ok: true });
+  })
+);
+
+router.post(
+  '/join',
+  asyncRoute(async (req, res) => {
+    const body = joinSchema.parse(req.body);
+    const userId = req.userId!;
+    if (req.pool!.householdId) {
+      throw new HttpError(409, 'Leave your current household first');
+    }
+
+    const invite = await prisma.householdInvite.findUnique({
+      where: { tokenHash: hashInviteToken(body.token) },
+      select: { id: true, householdId: true, email: true, role: true, expiresAt: true, acceptedAt: true }
+    });
+    if (!invite || invite.acceptedAt) {
+      throw new HttpError(404, 'Invite not found or already used');
+    }
+    if (invite.expiresAt <= new Date()) {
+      throw new HttpError(410, 'This invite has expired; ask for a new one');
+    }
+    // An invite made out to an address is only good for the account with that address.
+    if (invite.email) {
+      const user = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { email: true } });
+      if (user.email.toLowerCase() !== invite.email) {
+        throw new HttpError(403, `This invite is for ${invite.email}; sign in with that account to join`);
+      }
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        // Claim the invite first so two people can't both use it.
+        const claimed = await tx.householdInvite.updateMany({
+          where: { id: invite.id, acceptedAt: null },
+          data: { acceptedAt: new Date() }
+        });
+        if (claimed.count === 0) {
+          throw new HttpError(404, 'Invite not found or already used');
+        }
+        await tx.householdMember.create({ data: { householdId: invite.householdId, userId, role: invite.role } });
+        await mergePoolIntoHousehold(tx, userId, invite.householdId);
+      },
+      { timeout: MERGE_TIMEOUT_MS }
+    );
+
+    res.json({ household: await loadHousehold({ userId, householdId: invite.householdId, role: invite.role }) });
+  })
+);
+
+router.patch(
+  '/members/:userId',
+  asyncRoute(async (req, res) => {
+    const body = roleSchema.parse(req.body);
+    const householdId = requireOwner(req.pool!);
+    const memberId = parseId(req.params.userId);
+
+    const member = await prisma.householdMember.findFirst({ where: { householdId, userId: memberId }, select: { id: true, role: true } });
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+    if (member.role === 'owner' && body.role !== 'owner') {
+      const owners = await prisma.householdMember.count({ where: { householdId, role: 'owner' } });
+      if (owners === 1) {
+        throw new HttpError(409, 'A household needs at least one owner');
+      }
+    }
+
+    await prisma.householdMember.update({ where: { id: member.id }, data: { role: body.role } });
+    // Reloaded: an owner may have just changed their own role.
+    res.json({ household: await loadHousehold(await loadPool(req.userId!)) });
+  })
+);
+
+/**
+ * Leave (your own user id) or remove a member (owners only). The shared pool
+ * stays with the household; the last member to leave takes it back as their
+ * own and the household goes away.
+ */
+router.delete(
+  '/members/:userId',
+  asyncRoute(async (req, res) => {
+    const pool = req.pool!;
+    const householdId = requireHousehold(pool);
+    const memberId = parseId(req.params.userId);
+    if (memberId !== pool.userId && pool.role !== 'owner') {
+      throw new HttpError(403, 'Only household owners can remove other members');
+    }
+
+    const members = await prisma.householdMember.findMany({ where: { householdId }, select: { id: true, userId: true, role: true } });
+    const member = members.find((m) => m.userId === memberId);
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+
+    if (members.length === 1) {
+      await prisma.$transaction((tx) => dissolveHousehold(tx, householdId, memberId), { timeout: MERGE_TIMEOUT_MS });
+      res.json({ ok: true });
+      return;
+    }
+
+    if (member.role === 'owner' && members.filter((m) => m.role === 'owner').length === 1) {
+      throw new HttpError(409, 'Make another member an owner first');
+    }
+
+    await prisma.householdMember.delete({ where: { id: member.id } });
+    res.json({ ok: true });
+  })
+);
+
+export default router;
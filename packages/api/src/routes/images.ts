@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import { recipesInPool } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import { imageStorage } from '../lib/image-storage.js';
+import { IMAGE_SIZES, imageContentType, imageKey } from '../lib/recipe-images.js';
+import type { ImageSize } from '../lib/recipe-images.js';
+
+const router = Router();
+
+const querySchema = z.object({
+  size: z.enum(IMAGE_SIZES as [ImageSize, ...ImageSize[]]).default('original')
+});
+
+// Cached recipe images, for recipes in the requester's pool only.
+router.get(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+    const { size } = querySchema.parse(req.query);
+
+    const image = await prisma.recipeImage.findFirst({
+      where: { id, recipe: recipesInPool(req.pool!) },
+      select: { storageKey: true, contentType: true }
+    });
+    const data = image && (await imageStorage().get(imageKey(image.storageKey, size)));
+    if (!image || !data) {
+      throw new HttpError(404, 'Image not found');
+    }
+
+    res.setHeader('Content-Type', imageContentType(size, image.contentType));
+    // A replaced image gets a new id, so a cached copy never goes stale.
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(data);
+  })
+);
+
+export default router;
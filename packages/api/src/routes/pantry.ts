@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { Prisma } from '@prisma/client';
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import { HttpError } from '../lib/http-error.js';
+import { DEFAULT_STAPLES, matchPantry, staplesFromJson } from '../lib/pantry.js';
+import { itemKey } from '../lib/shopping-list.js';
+
+const router = Router();
+
+const nameSchema = z.string().trim().min(1).max(80);
+
+const addSchema = z.object({
+  names: z.array(nameSchema).min(1).max(200)
+});
+
+const staplesSchema = z.object({
+  // null goes back to the defaults.
+  staples: z.array(nameSchema).max(200).nullable()
+});
+
+const matchQuerySchema = z.object({
+  maxMissing: z.coerce.number().int().nonnegative().optional(),
+  limit: z.coerce.number().int().positive().max(200).default(50)
+});
+
+function parseId(raw: string | undefined): number {
+  const id = Number.parseInt(raw ?? '', 10);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, 'Invalid id');
+  }
+  return id;
+}
+
+async function loadPantry(userId: number) {
+  const [items, user] = await Promise.all([
+    prisma.pantryItem.findMany({ where: { userId }, orderBy: { name: 'asc' }, select: { id: true, name: true } }),
+    prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { pantryStaples: true } })
+  ]);
+  return { items, staples: staplesFromJson(user.pantryStaples), defaultStaples: DEFAULT_STAPLES };
+}
+
+router.get(
+  '/',
+  asyncRoute(async (req, res) => {
+    res.json(await loadPantry(req.userId!));
+  })
+);
+
+router.post(
+  '/',
+  asyncRoute(async (req, res) => {
+    const body = addSchema.parse(req.body);
+    const userId = req.userId!;
+
+    // Items already in the pantry (under any spelling with the same key) are left as they are.
+    const data = body.names.map((name) => ({ userId, name, key: itemKey(name) })).filter((i) => i.key);
+    await prisma.pantryItem.createMany({ data, skipDuplicates: true });
+
+    res.status(201).json(await loadPantry(userId));
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    const id = parseId(req.params.id);
+    const deleted = await prisma.pantryItem.deleteMany({ where: { id, userId: req.userId! } });
+    if (!deleted.count) {
+      throw new HttpError(404, 'Pantry item not found');
+    }
+    res.json({ ok: true });
+  })
+);
+
+router.put(
+  '/staples',
+  asyncRoute(async (req, res) => {
+    const body = staplesSchema.parse(req.body);
+    await prisma.user.update({
+      where: { id: req.userId! },
+      data: { pantryStaples: body.staples ?? Prisma.DbNull }
+    });
+    res.json(await loadPantry(req.userId!));
+  })
+);
+
+router.get(
+  '/matches',
+  asyncRoute(async (req, res) => {
+    const query = matchQuerySchema.parse(req.query);
+    const matches = await matchPantry(req.pool!, query);
+    res.json({ matches });
+  })
+);
+
+export default router;
@@ -0,0 +1,213 @@
+import { randomInt } from 'node:crypto';
+
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { MealSlot } from '@prisma/client';
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import { cookEventsInPool, plansInPool, poolOwner, recipesInPool, requireEditor } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import {
+  addDays,
+  ensureWeekPlan,
+  formatDate,
+  isInWeek,
+  loadWeekPlan,
+  parseDateParam,
+  planWhereWeek,
+  startOfWeek,
+  weekDates
+} from '../lib/plans.js';
+import { generateRotation } from '../lib/rotation.js';
+
+const router = Router();
+
+const assignSchema = z.object({
+  date: z.string().trim(),
+  slot: z.nativeEnum(MealSlot),
+  recipeId: z.number().int().positive(),
+  note: z.string().trim().max(500).optional().nullable()
+});
+
+const notesSchema = z.object({
+  notes: z.string().trim().max(5000).nullable()
+});
+
+const generateSchema = z.object({
+  seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+  cooldownDays: z.number().int().min(0).max(365).default(14),
+  slots: z.array(z.nativeEnum(MealSlot)).min(1).max(3).default(['dinner']),
+  requiredTags: z.array(z.string().trim().min(1).max(32)).max(25).default([]),
+  excludedTags: z.array(z.string().trim().min(1).max(32)).max(25).default([])
+});
+
+router.get(
+  '/:week',
+  asyncRoute(async (req, res) => {
+    const weekStart = startOfWeek(parseDateParam(req.params.week));
+    const plan = await loadWeekPlan(req.pool!, weekStart);
+    res.json({ plan });
+  })
+);
+
+router.put(
+  '/:week',
+  asyncRoute(async (req, res) => {
+    const pool = req.pool!;
+    requireEditor(pool);
+    const weekStart = startOfWeek(parseDateParam(req.params.week));
+    const body = notesSchema.parse(req.body);
+
+    await prisma.mealPlan.upsert({
+      where: planWhereWeek(pool, weekStart),
+      create: { ...poolOwner(pool), weekStart, notes: body.notes },
+      update: { notes: body.notes }
+    });
+
+    const plan = await loadWeekPlan(pool, weekStart);
+    res.json({ plan });
+  })
+);
+
+router.put(
+  '/:week/meals',
+  asyncRoute(async (req, res) => {
+    const pool = req.pool!;
+    requireEditor(pool);
+    const weekStart = startOfWeek(parseDateParam(req.params.week));
+    const body = assignSchema.parse(req.body);
+    const date = parseDateParam(body.date);
+
+    if (!isInWeek(date, weekStart)) {
+      throw new HttpError(400, 'Date is outside of this week');
+    }
+
+    const recipe = await prisma.recipe.findFirst({ where: { id: body.recipeId, ...recipesInPool(pool) }, select: { id: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    const plan = await ensureWeekPlan(pool, weekStart);
+
+    await prisma.plannedMeal.upsert({
+      where: { planId_date_slot: { planId: plan.id, date, slot: body.slot } },
+      create: {
+        planId: plan.id,
+        date,
+        slot: body.slot,
+        recipeId: recipe.id,
+        note: body.note ?? null
+      },
+      update: {
+        recipeId: recipe.id,
+        ...(body.note !== undefined ? { note: body.note } : {})
+      }
+    });
+
+    res.json({ plan: await loadWeekPlan(pool, weekStart) });
+  })
+);
+
+router.post(
+  '/:week/generate',
+  asyncRoute(async (req, res) => {
+    const pool = req.pool!;
+    requireEditor(pool);
+    const weekStart = startOfWeek(parseDateParam(req.params.week));
+    const body = generateSchema.parse(req.body ?? {});
+    const seed = body.seed ?? randomInt(0, 2 ** 31 - 1);
+
+    const plan = await ensureWeekPlan(pool, weekStart);
+    const existing = await prisma.plannedMeal.findMany({
+      where: { planId: plan.id },
+      select: { date: true, slot: true }
+    });
+    const taken = new Set(existing.map((m) => `${formatDate(m.date)}:${m.slot}`));
+
+    const slots = weekDates(weekStart).flatMap((date) =>
+      body.slots.filter((slot) => !taken.has(`${formatDate(date)}:${slot}`)).map((slot) => ({ date, slot }))
+    );
+
+    const recipes = await prisma.recipe.findMany({
+      where: { ...recipesInPool(pool), scrapeStatus: { not: 'error' } },
+      select: { id: true, tags: { select: { tag: { select: { key: true } } } } }
+    });
+
+    // Anything planned or cooked within the cooldown window on either side of this week counts as recent.
+    const windowStart = addDays(weekStart, -body.cooldownDays);
+    const windowEnd = addDays(weekStart, 7 + body.cooldownDays);
+    const recent = await prisma.plannedMeal.findMany({
+      where: { plan: plansInPool(pool), date: { gte: windowStart, lt: windowEnd } },
+      select: { recipeId: true, date: true }
+    });
+
+    const cooked = await prisma.cookEvent.findMany({
+      where: { ...cookEventsInPool(pool), cookedAt: { gte: windowStart, lt: windowEnd } },
+      select: { recipeId: true, cookedAt: true }
+    });
+
+    const history = new Map<number, Date[]>();
+    for (const meal of recent) {
+      history.set(meal.recipeId, [...(history.get(meal.recipeId) ?? []), meal.date]);
+    }
+    for (const event of cooked) {
+      history.set(event.recipeId, [...(history.get(event.recipeId) ?? []), event.cookedAt]);
+    }
+
+    const result = generateRotation(
+      recipes.map((r) => ({ id: r.id, tags: r.tags.map((t) => t.tag.key) })),
+      slots,
+      history,
+      {
+        seed,
+        cooldownDays: body.cooldownDays,
+        requiredTags: body.requiredTags,
+        excludedTags: body.excludedTags
+      }
+    );
+
+    if (result.assigned.length) {
+      await prisma.plannedMeal.createMany({
+        data: result.assigned.map((a) => ({
+          planId: plan.id,
+          date: a.date,
+          slot: a.slot,
+          recipeId: a.recipeId
+        })),
+        skipDuplicates: true
+      });
+    }
+
+    res.json({
+      plan: await loadWeekPlan(pool, weekStart),
+      seed,
+      filled: result.assigned.length,
+      unfilled: result.unfilled.map((s) => ({ date: formatDate(s.date), slot: s.slot }))
+    });
+  })
+);
+
+router.delete(
+  '/:week/meals/:mealId',
+  asyncRoute(async (req, res) => {
+    const pool = req.pool!;
+    requireEditor(pool);
+    const weekStart = startOfWeek(parseDateParam(req.params.week));
+    const mealId = Number.parseInt(req.params.mealId ?? '', 10);
+    if (!Number.isInteger(mealId)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const result = await prisma.plannedMeal.deleteMany({
+      where: { id: mealId, plan: { ...plansInPool(pool), weekStart } }
+    });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Planned meal not found');
+    }
+
+    res.json({ plan: await loadWeekPlan(pool, weekStart) });
+  })
+);
+
+export default router;
@@ -1,43 +1,198 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { z } from 'zod';
 
-import { Prisma } from '@prisma/client';
+import { parseIngredients } from '@meal-rotation/ingredients';
+import { Prisma, ScrapeStatus } from '@prisma/client';
 import { asyncRoute } from '../lib/async-route.js';
+import { cookStatsByRecipe, withCookStats } from '../lib/cook-history.js';
 import { prisma } from '../lib/db.js';
+import { cookEventsInPool, recipeOwner, recipesInPool, requireEditor } from '../lib/households.js';
 import { HttpError } from '../lib/http-error.js';
-import { scrapeRecipe } from '../lib/scrape.js';
+import { IMPORT_FORMATS, ImportFormatError, importedRecipeData, readRecipeExport } from '../lib/importers/index.js';
+import { formatDate, parseDateParam, today } from '../lib/plans.js';
+import { removeImageFiles, syncRecipeImagesLater } from '../lib/recipe-images.js';
+import { EDITABLE_FIELDS, manualFieldsFromJson } from '../lib/recipe-scrape.js';
+import type { EditableField } from '../lib/recipe-scrape.js';
+import { RECIPE_SORTS, recipeFacets, searchRecipes } from '../lib/recipe-search.js';
+import { createShareToken } from '../lib/recipe-share.js';
+import { connectTags, recipeTagsInclude, replaceTags, withTagNames } from '../lib/tags.js';
+import { enqueueNewRecipes, enqueueScrape } from '../lib/scrape-queue.js';
+import { collectImportCandidates } from '../lib/url-import.js';
 
 const router = Router();
 
-const createSchema = z.object({
-  sourceUrl: z.string().trim().url(),
-  title: z.string().trim().min(1).max(180).optional()
-});
+const linesSchema = z.array(z.string().trim().min(1).max(2000)).max(500);
 
-const updateSchema = z.object({
+// Fields a user can type in for a recipe; shared by manual creation and editing.
+const recipeFieldsSchema = z.object({
   title: z.string().trim().min(1).max(180).optional(),
+  description: z.string().trim().max(5000).optional().nullable(),
+  imageUrl: z.string().trim().url().optional().nullable(),
+  servings: z.number().positive().max(1000).optional().nullable(),
+  servingsText: z.string().trim().max(120).optional().nullable(),
+  ingredients: linesSchema.optional().nullable(),
+  instructions: linesSchema.optional().nullable(),
+  totalMinutes: z.number().int().positive().max(10080).optional().nullable(),
   notes: z.string().trim().max(5000).optional().nullable(),
   tags: z.array(z.string().trim().min(1).max(32)).max(25).optional().nullable()
 });
 
+// Without a sourceUrl the recipe is entered by hand and needs at least a title.
+const createSchema = recipeFieldsSchema
+  .extend({
+    sourceUrl: z.string().trim().url().optional()
+  })
+  .refine((body) => body.sourceUrl || body.title, { message: 'A title is required for recipes without a source URL' });
+
+const updateSchema = recipeFieldsSchema.extend({
+  // Hand back fields to the scraper so the next rescrape overwrites them again.
+  unlockFields: z.array(z.enum(EDITABLE_FIELDS)).optional()
+});
+
+type RecipeFields = z.infer<typeof recipeFieldsSchema>;
+
+type RecipeFieldsData = Partial<
+  Pick<
+    Prisma.RecipeUncheckedCreateInput,
+    | 'title'
+    | 'description'
+    | 'imageUrl'
+    | 'servings'
+    | 'servingsText'
+    | 'ingredients'
+    | 'ingredientsParsed'
+    | 'instructions'
+    | 'totalMinutes'
+    | 'notes'
+    | 'manualFields'
+  >
+>;
+
+function jsonOrNull(value: string[] | null): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === null ? Prisma.JsonNull : value;
+}
+
+// Turns the user-supplied fields of a request into update data, listing which
+// scraped fields were touched so they can be protected from rescrapes.
+function recipeFieldsData(body: RecipeFields): { data: RecipeFieldsData; edited: EditableField[] } {
+  const data: RecipeFieldsData = {};
+  const edited: EditableField[] = [];
+
+  if (body.title) {
+    data.title = body.title;
+    edited.push('title');
+  }
+  if (body.description !== undefined) {
+    data.description = body.description || null;
+    edited.push('description');
+  }
+  if (body.imageUrl !== undefined) {
+    data.imageUrl = body.imageUrl || null;
+    edited.push('imageUrl');
+  }
+  if (body.servings !== undefined) {
+    data.servings = body.servings;
+    edited.push('servings');
+    // A bare number replaces the scraped yield text ("Makes 2 loaves"), which would otherwise disagree.
+    if (body.servingsText === undefined) {
+      data.servingsText = null;
+      edited.push('servingsText');
+    }
+  }
+  if (body.servingsText !== undefined) {
+    data.servingsText = body.servingsText || null;
+    edited.push('servingsText');
+  }
+  if (body.ingredients !== undefined) {
+    data.ingredients = jsonOrNull(body.ingredients);
+    data.ingredientsParsed = body.ingredients === null ? Prisma.JsonNull : parseIngredients(body.ingredients);
+    edited.push('ingredients');
+  }
+  if (body.instructions !== undefined) {
+    data.instructions = jsonOrNull(body.instructions);
+    edited.push('instructions');
+  }
+  if (body.totalMinutes !== undefined) {
+    data.totalMinutes = body.totalMinutes;
+    edited.push('totalMinutes');
+  }
+  if (body.notes !== undefined) {
+    data.notes = body.notes;
+  }
+
+  return { data, edited };
+}
+
+const MAX_PAGE_SIZE = 200;
+
+// Query strings give `?tags=a,b` or `?tags=a&tags=b`; accept both.
+const tagsParamSchema = z
+  .union([z.string(), z.array(z.string())])
+  .transform((v) => (Array.isArray(v) ? v : v.split(',')).map((t) => t.trim()).filter(Boolean));
+
+const listQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  tags: tagsParamSchema.optional(),
+  sourceHost: z.string().trim().min(1).optional(),
+  scrapeStatus: z.nativeEnum(ScrapeStatus).optional(),
+  minMinutes: z.coerce.number().int().nonnegative().optional(),
+  maxMinutes: z.coerce.number().int().nonnegative().optional(),
+  sort: z.enum(RECIPE_SORTS).optional(),
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().positive().max(MAX_PAGE_SIZE).default(50)
+});
+
+// `file` is the text of an uploaded plain-text URL list or Netscape bookmarks export.
+const importSchema = z
+  .object({
+    urls: z.array(z.string().max(2048)).max(2000).default([]),
+    file: z.string().max(2_000_000).optional()
+  })
+  .refine((body) => body.urls.length || body.file, { message: 'Provide urls or a file' });
+
+const MAX_IMPORT_URLS = 1000;
+
+const importFileQuerySchema = z.object({
+  format: z.enum(IMPORT_FORMATS).optional()
+});
+
+const noteSchema = z.object({
+  // Empty clears the note.
+  body: z.string().trim().max(5000)
+});
+
+const cookedSchema = z.object({
+  cookedAt: z.string().trim().optional(),
+  rating: z.number().int().min(1).max(5).optional().nullable(),
+  comment: z.string().trim().max(2000).optional().nullable()
+});
+
+const cookEventSelect = {
+  id: true,
+  recipeId: true,
+  cookedAt: true,
+  rating: true,
+  comment: true,
+  createdAt: true
+} satisfies Prisma.CookEventSelect;
+
+function toCookEventResponse(event: Prisma.CookEventGetPayload<{ select: typeof cookEventSelect }>) {
+  return { ...event, cookedAt: formatDate(event.cookedAt) };
+}
+
 router.get(
   '/',
-  asyncRoute(async (_req, res) => {
-    const recipes = await prisma.recipe.findMany({
-      where: { userId: _req.userId },
-      orderBy: { updatedAt: 'desc' },
-      select: {
-        id: true,
-        title: true,
-        sourceUrl: true,
-        sourceHost: true,
-        imageUrl: true,
-        scrapeStatus: true,
-        lastScrapedAt: true,
-        updatedAt: true
-      }
-    });
-    res.json({ recipes });
+  asyncRoute(async (req, res) => {
+    const query = listQuerySchema.parse(req.query);
+    const { total, recipes } = await searchRecipes(req.pool!, query);
+    res.json({ recipes, total, page: query.page, pageSize: query.pageSize });
+  })
+);
+
+router.get(
+  '/facets',
+  asyncRoute(async (req, res) => {
+    res.json(await recipeFacets(req.pool!));
   })
 );
 
@@ -45,10 +200,31 @@ router.post(
   '/',
   asyncRoute(async (req, res) => {
     const body = createSchema.parse(req.body);
-    const userId = req.userId!;
+    const pool = req.pool!;
+    requireEditor(pool);
+    const { data, edited } = recipeFieldsData(body);
+
+    if (!body.sourceUrl) {
+      const recipe = await prisma.recipe.create({
+        data: {
+          ...data,
+          ...recipeOwner(pool),
+          title: body.title!,
+          scrapeStatus: 'ok',
+          tags: body.tags ? connectTags(pool, body.tags) : undefined
+        },
+        select: { id: true }
+      });
+      if (data.imageUrl) {
+        syncRecipeImagesLater([recipe.id]);
+      }
+
+      res.status(201).json({ id: recipe.id });
+      return;
+    }
 
     const existing = await prisma.recipe.findFirst({
-      where: { userId, sourceUrl: body.sourceUrl },
+      where: { ...recipesInPool(pool), sourceUrl: body.sourceUrl },
       select: { id: true }
     });
     if (existing) {
@@ -58,65 +234,155 @@ router.post(
 
     const url = new URL(body.sourceUrl);
 
-    const recipe = await prisma.recipe.create({
-      data: {
-        userId,
-        title: body.title ?? url.hostname,
-        sourceUrl: body.sourceUrl,
-        sourceHost: url.hostname,
-        scrapeStatus: 'pending'
+    const recipe = await prisma.recipe
+      .create({
+        data: {
+          ...data,
+          ...recipeOwner(pool),
+          title: body.title ?? url.hostname,
+          sourceUrl: body.sourceUrl,
+          sourceHost: url.hostname,
+          scrapeStatus: 'pending',
+          // Anything the user typed in up front wins over what the scraper finds.
+          manualFields: edited.length ? edited : undefined,
+          tags: body.tags ? connectTags(pool, body.tags) : undefined
+        },
+        select: { id: true }
+      })
+      .catch((err) => {
+        // Added to the pool by a concurrent request since the lookup above.
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+          throw new HttpError(409, 'This recipe is already in the pool');
+        }
+        throw err;
+      });
+
+    // Scraped in the background by the job queue; client can poll recipe detail.
+    await enqueueScrape(recipe.id);
+
+    res.status(201).json({ id: recipe.id });
+  })
+);
+
+router.post(
+  '/import',
+  asyncRoute(async (req, res) => {
+    const body = importSchema.parse(req.body);
+    const pool = req.pool!;
+    requireEditor(pool);
+
+    const candidates = collectImportCandidates(body.urls, body.file);
+    const valid = candidates.filter((c): c is typeof c & { url: string } => c.url !== null);
+    if (valid.length > MAX_IMPORT_URLS) {
+      throw new HttpError(400, `Too many URLs (${valid.length}); import at most ${MAX_IMPORT_URLS} at a time`);
+    }
+
+    const existing = await prisma.recipe.findMany({
+      where: { ...recipesInPool(pool), sourceUrl: { in: valid.map((c) => c.url) } },
+      select: { id: true, sourceUrl: true }
+    });
+    const existingByUrl = new Map(existing.map((r) => [r.sourceUrl!, r.id]));
+
+    // skipDuplicates leans on the per-pool unique URL indexes for anything added since the lookup.
+    const created = await prisma.recipe.createManyAndReturn({
+      data: valid
+        .filter((c) => !existingByUrl.has(c.url))
+        .map((c) => ({
+          ...recipeOwner(pool),
+          title: c.title?.slice(0, 180) || new URL(c.url).hostname,
+          sourceUrl: c.url,
+          sourceHost: new URL(c.url).hostname,
+          scrapeStatus: 'pending' as const
+        })),
+      skipDuplicates: true,
+      select: { id: true, sourceUrl: true }
+    });
+    const createdByUrl = new Map(created.map((r) => [r.sourceUrl!, r.id]));
+
+    await enqueueNewRecipes(created.map((r) => ({ id: r.id, sourceUrl: r.sourceUrl! })));
+
+    const results = candidates.map((c) => {
+      if (!c.url) return { input: c.input, url: null, status: 'invalid' as const };
+      const createdId = createdByUrl.get(c.url);
+      if (createdId) return { input: c.input, url: c.url, status: 'queued' as const, recipeId: createdId };
+      return { input: c.input, url: c.url, status: 'duplicate' as const, recipeId: existingByUrl.get(c.url) ?? null };
+    });
+
+    res.status(201).json({
+      summary: {
+        queued: results.filter((r) => r.status === 'queued').length,
+        duplicate: results.filter((r) => r.status === 'duplicate').length,
+        invalid: results.filter((r) => r.status === 'invalid').length
       },
-      select: { id: true }
+      results
     });
+  })
+);
 
-    // Fire-and-forget scrape; client can poll recipe detail.
-    void (async () => {
-      try {
-        const scraped = await scrapeRecipe(body.sourceUrl);
-        try {
-          await prisma.recipe.update({
-            where: { id: recipe.id },
-            data: {
-              title: body.title ?? scraped.title,
-              description: scraped.description,
-              imageUrl: scraped.imageUrl,
-              servings: scraped.servings ?? null,
-              servingsText: scraped.servingsText ?? null,
-              ingredients: scraped.ingredients ?? undefined,
-              instructions: scraped.instructions ?? undefined,
-              sourceHost: scraped.sourceHost,
-              scrapeStatus: 'ok',
-              scrapeError: null,
-              lastScrapedAt: new Date()
-            }
-          });
-        } catch (err) {
-          if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2025') {
-            return;
-          }
-          throw err;
-        }
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Unknown scrape error';
-        try {
-          await prisma.recipe.update({
-            where: { id: recipe.id },
-            data: {
-              scrapeStatus: 'error',
-              scrapeError: message,
-              lastScrapedAt: new Date()
-            }
-          });
-        } catch (err2) {
-          if (err2 instanceof Prisma.PrismaClientKnownRequestError && err2.code === 'P2025') {
-            return;
-          }
-          throw err2;
-        }
+// Exports from other recipe apps, sent as the raw file body (zip or JSON; format sniffed unless ?format=).
+router.post(
+  '/import/file',
+  express.raw({ type: () => true, limit: '100mb' }),
+  asyncRoute(async (req, res) => {
+    const query = importFileQuerySchema.parse(req.query);
+    const pool = req.pool!;
+    requireEditor(pool);
+    const data: Buffer | null = Buffer.isBuffer(req.body) ? req.body : null;
+    if (!data?.length) {
+      throw new HttpError(400, 'Send the export file as the request body');
+    }
+
+    let parsed: ReturnType<typeof readRecipeExport>;
+    try {
+      parsed = readRecipeExport(data, query.format);
+    } catch (err) {
+      if (err instanceof ImportFormatError || err instanceof SyntaxError) {
+        throw new HttpError(400, err.message);
       }
-    })();
+      throw err;
+    }
 
-    res.status(201).json({ id: recipe.id });
+    const urls = parsed.recipes.map((r) => r.sourceUrl).filter((u): u is string => !!u);
+    const existing = await prisma.recipe.findMany({
+      where: { ...recipesInPool(pool), sourceUrl: { in: urls } },
+      select: { id: true, sourceUrl: true }
+    });
+    const existingByUrl = new Map(existing.map((r) => [r.sourceUrl!, r.id]));
+
+    // Exports can repeat a URL; only the first copy is imported.
+    const seen = new Set<string>();
+    const fresh = parsed.recipes.filter((r) => {
+      if (!r.sourceUrl) return true;
+      if (existingByUrl.has(r.sourceUrl) || seen.has(r.sourceUrl)) return false;
+      seen.add(r.sourceUrl);
+      return true;
+    });
+
+    const created = await prisma.$transaction(
+      fresh.map((r) => prisma.recipe.create({ data: importedRecipeData(pool, r), select: { id: true } }))
+    );
+    const createdIds = new Map(fresh.map((r, i) => [r, created[i]!.id]));
+    syncRecipeImagesLater(fresh.filter((r) => r.imageUrl).map((r) => createdIds.get(r)!));
+
+    const results = parsed.recipes.map((r) => {
+      const recipeId = createdIds.get(r);
+      if (recipeId) return { title: r.title, sourceUrl: r.sourceUrl ?? null, status: 'imported' as const, recipeId };
+      return {
+        title: r.title,
+        sourceUrl: r.sourceUrl ?? null,
+        status: 'duplicate' as const,
+        recipeId: existingByUrl.get(r.sourceUrl!) ?? null
+      };
+    });
+
+    res.status(201).json({
+      format: parsed.format,
+      summary: {
+        imported: created.length,
+        duplicate: results.length - created.length
+      },
+      results
+    });
   })
 );
 
@@ -128,12 +394,30 @@ router.get(
       throw new HttpError(400, 'Invalid id');
     }
 
-    const recipe = await prisma.recipe.findFirst({ where: { id, userId: req.userId! } });
-    if (!recipe) {
+    const pool = req.pool!;
+    const found = await prisma.recipe.findFirst({
+      where: { id, ...recipesInPool(pool) },
+      include: {
+        tags: recipeTagsInclude,
+        image: { select: { id: true } },
+        personalNotes: { where: { userId: pool.userId }, select: { body: true } }
+      }
+    });
+    if (!found) {
       throw new HttpError(404, 'Recipe not found');
     }
 
-    res.json({ recipe });
+    const { personalNotes, ...recipe } = found;
+    const stats = await cookStatsByRecipe(pool, [recipe.id]);
+    res.json({
+      recipe: {
+        ...withCookStats(withTagNames(recipe), stats),
+        // Recipes scraped before structured parsing existed only have the raw lines.
+        ingredientsParsed: recipe.ingredientsParsed ?? parseIngredients(recipe.ingredients),
+        // Only ever the requesting member's own note.
+        personalNote: personalNotes[0]?.body ?? null
+      }
+    });
   })
 );
 
@@ -146,24 +430,43 @@ router.put(
     }
 
     const body = updateSchema.parse(req.body);
+    const pool = req.pool!;
+    requireEditor(pool);
 
-    const existing = await prisma.recipe.findFirst({ where: { id, userId: req.userId! }, select: { id: true } });
+    const existing = await prisma.recipe.findFirst({
+      where: { id, ...recipesInPool(pool) },
+      select: { id: true, sourceUrl: true, manualFields: true }
+    });
     if (!existing) {
       throw new HttpError(404, 'Recipe not found');
     }
 
+    const { data, edited } = recipeFieldsData(body);
+    // Manual recipes have nothing to protect from the scraper.
+    if (existing.sourceUrl) {
+      const unlocked = new Set(body.unlockFields ?? []);
+      const manualFields = new Set(manualFieldsFromJson(existing.manualFields).filter((f) => !unlocked.has(f)));
+      edited.forEach((f) => manualFields.add(f));
+      data.manualFields = manualFields.size ? [...manualFields] : Prisma.JsonNull;
+    }
+    // Typing in what the scraper couldn't find makes the recipe usable again (meal plans skip
+    // recipes whose scrape failed), so drop the error along with it.
+    const filledIn = Boolean(body.ingredients?.length || body.instructions?.length);
+
     const recipe = await prisma.recipe.update({
       where: { id },
       data: {
-        ...(body.title ? { title: body.title } : {}),
-        ...(body.notes !== undefined ? { notes: body.notes } : {}),
-        ...(body.tags !== undefined
-          ? { tags: body.tags === null ? Prisma.JsonNull : body.tags }
-          : {})
-      }
+        ...data,
+        ...(filledIn ? { scrapeStatus: 'ok' as const, scrapeError: null } : {}),
+        tags: body.tags !== undefined ? replaceTags(pool, body.tags ?? []) : undefined
+      },
+      include: { tags: recipeTagsInclude, image: { select: { id: true } } }
     });
+    if (body.imageUrl !== undefined) {
+      syncRecipeImagesLater([id]);
+    }
 
-    res.json({ recipe });
+    res.json({ recipe: withTagNames(recipe) });
   })
 );
 
@@ -175,66 +478,237 @@ router.delete(
       throw new HttpError(400, 'Invalid id');
     }
 
-    const result = await prisma.recipe.deleteMany({ where: { id, userId: req.userId! } });
+    requireEditor(req.pool!);
+    const image = await prisma.recipeImage.findFirst({ where: { recipeId: id }, select: { storageKey: true } });
+    const result = await prisma.recipe.deleteMany({ where: { id, ...recipesInPool(req.pool!) } });
     if (result.count === 0) {
       throw new HttpError(404, 'Recipe not found');
     }
+    if (image) {
+      await removeImageFiles([image.storageKey]);
+    }
 
     res.json({ ok: true });
   })
 );
 
+// Idempotent: a recipe that is already shared keeps its link.
 router.post(
-  '/:id/rescrape',
+  '/:id/share',
   asyncRoute(async (req, res) => {
     const id = Number.parseInt(req.params.id ?? '', 10);
     if (!Number.isInteger(id)) {
       throw new HttpError(400, 'Invalid id');
     }
 
-    const recipe = await prisma.recipe.findFirst({ where: { id, userId: req.userId! } });
+    requireEditor(req.pool!);
+    const recipe = await prisma.recipe.findFirst({
+      where: { id, ...recipesInPool(req.pool!) },
+      select: { shareToken: true, sharedAt: true }
+    });
     if (!recipe) {
       throw new HttpError(404, 'Recipe not found');
     }
+    if (recipe.shareToken) {
+      res.json(recipe);
+      return;
+    }
 
-    await prisma.recipe.update({
+    const shared = await prisma.recipe.update({
       where: { id },
-      data: { scrapeStatus: 'pending', scrapeError: null }
+      data: { shareToken: createShareToken(), sharedAt: new Date() },
+      select: { shareToken: true, sharedAt: true }
     });
+    res.status(201).json(shared);
+  })
+);
 
-    try {
-      const scraped = await scrapeRecipe(recipe.sourceUrl);
-      const updated = await prisma.recipe.update({
-        where: { id },
-        data: {
-          title: scraped.title,
-          description: scraped.description,
-          imageUrl: scraped.imageUrl,
-          servings: scraped.servings ?? null,
-          servingsText: scraped.servingsText ?? null,
-          ingredients: scraped.ingredients ?? undefined,
-          instructions: scraped.instructions ?? undefined,
-          sourceHost: scraped.sourceHost,
-          scrapeStatus: 'ok',
-          scrapeError: null,
-          lastScrapedAt: new Date()
-        }
-      });
+// Revoking kills the link for good; sharing again mints a new one.
+router.delete(
+  '/:id/share',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
 
-      res.json({ recipe: updated });
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unknown scrape error';
-      const updated = await prisma.recipe.update({
-        where: { id },
-        data: {
-          scrapeStatus: 'error',
-          scrapeError: message,
-          lastScrapedAt: new Date()
+    requireEditor(req.pool!);
+    const result = await prisma.recipe.updateMany({
+      where: { id, ...recipesInPool(req.pool!) },
+      data: { shareToken: null, sharedAt: null }
+    });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+router.put(
+  '/:id/note',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const body = noteSchema.parse(req.body);
+    const userId = req.userId!;
+
+    // Viewers may keep notes too: they are private to the member writing them.
+    const recipe = await prisma.recipe.findFirst({ where: { id, ...recipesInPool(req.pool!) }, select: { id: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    if (!body.body) {
+      await prisma.recipeNote.deleteMany({ where: { recipeId: id, userId } });
+      res.json({ personalNote: null });
+      return;
+    }
+
+    const note = await prisma.recipeNote.upsert({
+      where: { recipeId_userId: { recipeId: id, userId } },
+      create: { recipeId: id, userId, body: body.body },
+      update: { body: body.body },
+      select: { body: true }
+    });
+    res.json({ personalNote: note.body });
+  })
+);
+
+router.post(
+  '/:id/rescrape',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    requireEditor(req.pool!);
+    const recipe = await prisma.recipe.findFirst({ where: { id, ...recipesInPool(req.pool!) }, select: { sourceUrl: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+    if (!recipe.sourceUrl) {
+      throw new HttpError(400, 'This recipe has no source URL to scrape');
+    }
+
+    await enqueueScrape(id);
+    const updated = await prisma.recipe.findUniqueOrThrow({ where: { id }, include: { tags: recipeTagsInclude } });
+
+    res.status(202).json({ recipe: withTagNames(updated) });
+  })
+);
+
+router.get(
+  '/:id/scrape-jobs',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const recipe = await prisma.recipe.findFirst({ where: { id, ...recipesInPool(req.pool!) }, select: { id: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    const jobs = await prisma.scrapeJob.findMany({
+      where: { recipeId: id },
+      orderBy: { id: 'desc' },
+      take: 10,
+      select: {
+        id: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        runAfter: true,
+        createdAt: true,
+        finishedAt: true,
+        lastError: true,
+        history: {
+          orderBy: { id: 'asc' },
+          select: { startedAt: true, finishedAt: true, ok: true, error: true, httpStatus: true, transient: true }
         }
-      });
+      }
+    });
 
-      res.status(200).json({ recipe: updated });
+    res.json({ jobs });
+  })
+);
+
+router.get(
+  '/:id/cooked',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const recipe = await prisma.recipe.findFirst({ where: { id, ...recipesInPool(req.pool!) }, select: { id: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
     }
+
+    const events = await prisma.cookEvent.findMany({
+      where: { recipeId: id, ...cookEventsInPool(req.pool!) },
+      orderBy: [{ cookedAt: 'desc' }, { id: 'desc' }],
+      select: cookEventSelect
+    });
+
+    res.json({ events: events.map(toCookEventResponse) });
+  })
+);
+
+router.post(
+  '/:id/cooked',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    if (!Number.isInteger(id)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    const body = cookedSchema.parse(req.body ?? {});
+    const cookedAt = body.cookedAt ? parseDateParam(body.cookedAt) : today();
+
+    const recipe = await prisma.recipe.findFirst({ where: { id, ...recipesInPool(req.pool!) }, select: { id: true } });
+    if (!recipe) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    const event = await prisma.cookEvent.create({
+      data: {
+        userId: req.userId!,
+        recipeId: id,
+        cookedAt,
+        rating: body.rating ?? null,
+        comment: body.comment || null
+      },
+      select: cookEventSelect
+    });
+
+    res.status(201).json({ event: toCookEventResponse(event) });
+  })
+);
+
+router.delete(
+  '/:id/cooked/:eventId',
+  asyncRoute(async (req, res) => {
+    const id = Number.parseInt(req.params.id ?? '', 10);
+    const eventId = Number.parseInt(req.params.eventId ?? '', 10);
+    if (!Number.isInteger(id) || !Number.isInteger(eventId)) {
+      throw new HttpError(400, 'Invalid id');
+    }
+
+    // Household members can only take back what they logged themselves.
+    const result = await prisma.cookEvent.deleteMany({ where: { id: eventId, recipeId: id, userId: req.userId! } });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Cook event not found');
+    }
+
+    res.json({ ok: true });
   })
 );
 
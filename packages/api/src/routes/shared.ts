@@ -0,0 +1,24 @@
+import { Router } from 'express';
+
+import { asyncRoute } from '../lib/async-route.js';
+import { HttpError } from '../lib/http-error.js';
+import { loadSharedRecipe } from '../lib/recipe-share.js';
+
+// Public, read-only views behind share links; mounted without requireAuth.
+const router = Router();
+
+router.get(
+  '/recipes/:token',
+  asyncRoute(async (req, res) => {
+    const recipe = await loadSharedRecipe(req.params.token ?? '');
+    if (!recipe) {
+      // Same answer for revoked and never-issued tokens.
+      throw new HttpError(404, 'This share link is no longer valid');
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ recipe });
+  })
+);
+
+export default router;
@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import type { Prisma } from '@prisma/client';
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import { plansInPool, recipesInPool } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import { formatDate, parseDateParam, startOfWeek } from '../lib/plans.js';
+import { CATEGORIES, aggregateIngredients } from '../lib/shopping-list.js';
+import type { ShoppingSource } from '../lib/shopping-list.js';
+
+const router = Router();
+
+const createSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120).optional(),
+    week: z.string().trim().optional(),
+    recipes: z
+      .array(
+        z.object({
+          recipeId: z.number().int().positive(),
+          multiplier: z.number().min(0.1).max(10).default(1)
+        })
+      )
+      .max(100)
+      .default([])
+  })
+  .refine((body) => body.week || body.recipes.length, { message: 'Pick a week or at least one recipe' });
+
+const itemSchema = z.object({
+  checked: z.boolean()
+});
+
+const listWithItems = {
+  items: { orderBy: { position: 'asc' } }
+} satisfies Prisma.ShoppingListInclude;
+
+function toListResponse(list: Prisma.ShoppingListGetPayload<{ include: typeof listWithItems }>) {
+  const groups = CATEGORIES.map((category) => ({
+    category,
+    items: list.items
+      .filter((i) => i.category === category)
+      .map((i) => ({
+        id: i.id,
+        item: i.item,
+        quantity: i.quantity,
+        unit: i.unit,
+        text: i.text,
+        checked: i.checked,
+        sources: i.sources
+      }))
+  })).filter((g) => g.items.length);
+
+  return {
+    id: list.id,
+    name: list.name,
+    weekStart: list.weekStart ? formatDate(list.weekStart) : null,
+    sources: list.sources,
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+    groups
+  };
+}
+
+function parseId(raw: string | undefined): number {
+  const id = Number.parseInt(raw ?? '', 10);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, 'Invalid id');
+  }
+  return id;
+}
+
+router.get(
+  '/',
+  asyncRoute(async (req, res) => {
+    const lists = await prisma.shoppingList.findMany({
+      where: { userId: req.userId! },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        weekStart: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { items: true } }
+      }
+    });
+
+    res.json({
+      lists: lists.map(({ _count, weekStart, ...list }) => ({
+        ...list,
+        weekStart: weekStart ? formatDate(weekStart) : null,
+        itemCount: _count.items
+      }))
+    });
+  })
+);
+
+router.post(
+  '/',
+  asyncRoute(async (req, res) => {
+    const userId = req.userId!;
+    const pool = req.pool!;
+    const body = createSchema.parse(req.body);
+
+    // Every planned meal counts once, scaled by the multiplier given for its recipe (default 1).
+    // Recipes passed explicitly but not planned that week are added once at their multiplier.
+    const multipliers = new Map(body.recipes.map((r) => [r.recipeId, r.multiplier]));
+    const occurrences: Array<{ recipeId: number; multiplier: number }> = [];
+    const weekStart = body.week ? startOfWeek(parseDateParam(body.week)) : null;
+
+    if (weekStart) {
+      const meals = await prisma.plannedMeal.findMany({
+        where: { plan: { ...plansInPool(pool), weekStart } },
+        orderBy: [{ date: 'asc' }, { slot: 'asc' }],
+        select: { recipeId: true }
+      });
+      for (const meal of meals) {
+        occurrences.push({ recipeId: meal.recipeId, multiplier: multipliers.get(meal.recipeId) ?? 1 });
+      }
+    }
+
+    for (const r of body.recipes) {
+      if (!occurrences.some((o) => o.recipeId === r.recipeId)) {
+        occurrences.push(r);
+      }
+    }
+
+    if (!occurrences.length) {
+      throw new HttpError(400, 'Nothing is planned for that week');
+    }
+
+    const recipes = await prisma.recipe.findMany({
+      where: { ...recipesInPool(pool), id: { in: [...new Set(occurrences.map((o) => o.recipeId))] } },
+      select: { id: true, ingredients: true }
+    });
+    if (recipes.length !== new Set(occurrences.map((o) => o.recipeId)).size) {
+      throw new HttpError(404, 'Recipe not found');
+    }
+
+    const ingredientsById = new Map(
+      recipes.map((r) => [r.id, Array.isArray(r.ingredients) ? r.ingredients.filter((i): i is string => typeof i === 'string') : []])
+    );
+
+    const sources: ShoppingSource[] = occurrences.map((o) => ({
+      recipeId: o.recipeId,
+      multiplier: o.multiplier,
+      ingredients: ingredientsById.get(o.recipeId) ?? []
+    }));
+    const { unitPreference } = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { unitPreference: true } });
+    const items = aggregateIngredients(sources, unitPreference === 'original' ? undefined : unitPreference);
+
+    const list = await prisma.shoppingList.create({
+      data: {
+        userId,
+        name: body.name ?? (weekStart ? `Week of ${formatDate(weekStart)}` : `Shopping list ${formatDate(new Date())}`),
+        weekStart,
+        sources: occurrences,
+        items: {
+          create: items.map((item, position) => ({
+            position,
+            category: item.category,
+            item: item.item,
+            quantity: item.quantity,
+            unit: item.unit,
+            text: item.text,
+            sources: item.sources
+          }))
+        }
+      },
+      include: listWithItems
+    });
+
+    res.status(201).json({ list: toListResponse(list) });
+  })
+);
+
+router.get(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    const id = parseId(req.params.id);
+    const list = await prisma.shoppingList.findFirst({ where: { id, userId: req.userId! }, include: listWithItems });
+    if (!list) {
+      throw new HttpError(404, 'Shopping list not found');
+    }
+
+    res.json({ list: toListResponse(list) });
+  })
+);
+
+router.patch(
+  '/:id/items/:itemId',
+  asyncRoute(async (req, res) => {
+    const id = parseId(req.params.id);
+    const itemId = parseId(req.params.itemId);
+    const body = itemSchema.parse(req.body);
+
+    const result = await prisma.shoppingListItem.updateMany({
+      where: { id: itemId, listId: id, list: { userId: req.userId! } },
+      data: { checked: body.checked }
+    });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Shopping list item not found');
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    const id = parseId(req.params.id);
+    const result = await prisma.shoppingList.deleteMany({ where: { id, userId: req.userId! } });
+    if (result.count === 0) {
+      throw new HttpError(404, 'Shopping list not found');
+    }
+
+    res.json({ ok: true });
+  })
+);
+
+export default router;
@@ -0,0 +1,134 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import { asyncRoute } from '../lib/async-route.js';
+import { prisma } from '../lib/db.js';
+import type { Pool } from '../lib/households.js';
+import { poolOwner, requireEditor, tagsInPool } from '../lib/households.js';
+import { HttpError } from '../lib/http-error.js';
+import { cleanTagName, listTags, tagKey, tagWhereKey } from '../lib/tags.js';
+
+const router = Router();
+
+const nameSchema = z.object({
+  name: z.string().trim().min(1).max(32)
+});
+
+const mergeSchema = z.object({
+  // Tags folded into the one in the URL, then deleted.
+  sourceIds: z.array(z.number().int().positive()).min(1).max(100)
+});
+
+function parseId(raw: string | undefined): number {
+  const id = Number.parseInt(raw ?? '', 10);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, 'Invalid id');
+  }
+  return id;
+}
+
+async function findTag(pool: Pool, id: number) {
+  const tag = await prisma.tag.findFirst({ where: { id, ...tagsInPool(pool) }, select: { id: true, name: true, key: true } });
+  if (!tag) {
+    throw new HttpError(404, 'Tag not found');
+  }
+  return tag;
+}
+
+router.get(
+  '/',
+  asyncRoute(async (req, res) => {
+    res.json({ tags: await listTags(req.pool!) });
+  })
+);
+
+router.post(
+  '/',
+  asyncRoute(async (req, res) => {
+    const body = nameSchema.parse(req.body);
+    const pool = req.pool!;
+    requireEditor(pool);
+    const name = cleanTagName(body.name);
+
+    const tag = await prisma.tag.upsert({
+      where: tagWhereKey(pool, tagKey(name)),
+      create: { ...poolOwner(pool), name, key: tagKey(name) },
+      update: {},
+      select: { id: true, name: true }
+    });
+    res.status(201).json({ tag });
+  })
+);
+
+router.patch(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    const body = nameSchema.parse(req.body);
+    const pool = req.pool!;
+    requireEditor(pool);
+    const tag = await findTag(pool, parseId(req.params.id));
+    const name = cleanTagName(body.name);
+
+    // Changing only the case keeps the key; anything else must not collide with another tag.
+    if (tagKey(name) !== tag.key) {
+      const clash = await prisma.tag.findUnique({
+        where: tagWhereKey(pool, tagKey(name)),
+        select: { id: true }
+      });
+      if (clash) {
+        throw new HttpError(409, `A tag named “${name}” already exists; merge the two instead`);
+      }
+    }
+
+    const updated = await prisma.tag.update({
+      where: { id: tag.id },
+      data: { name, key: tagKey(name) },
+      select: { id: true, name: true }
+    });
+    res.json({ tag: updated });
+  })
+);
+
+router.post(
+  '/:id/merge',
+  asyncRoute(async (req, res) => {
+    const body = mergeSchema.parse(req.body);
+    const pool = req.pool!;
+    requireEditor(pool);
+    const target = await findTag(pool, parseId(req.params.id));
+
+    const sources = await prisma.tag.findMany({
+      where: { id: { in: body.sourceIds.filter((id) => id !== target.id) }, ...tagsInPool(pool) },
+      select: { id: true }
+    });
+    if (!sources.length) {
+      throw new HttpError(400, 'Pick at least one other tag to merge');
+    }
+    const sourceIds = sources.map((t) => t.id);
+
+    await prisma.$transaction(async (tx) => {
+      const links = await tx.recipeTag.findMany({ where: { tagId: { in: sourceIds } }, select: { recipeId: true } });
+      // Recipes already carrying the target tag are skipped rather than duplicated.
+      await tx.recipeTag.createMany({
+        data: links.map((l) => ({ recipeId: l.recipeId, tagId: target.id })),
+        skipDuplicates: true
+      });
+      await tx.tag.deleteMany({ where: { id: { in: sourceIds } } });
+    });
+
+    res.json({ tags: await listTags(pool) });
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncRoute(async (req, res) => {
+    requireEditor(req.pool!);
+    const tag = await findTag(req.pool!, parseId(req.params.id));
+    // Cascades to the recipe links; the recipes themselves stay.
+    await prisma.tag.delete({ where: { id: tag.id } });
+    res.json({ ok: true });
+  })
+);
+
+export default router;
@@ -1,4 +1,5 @@
 import { createApp } from './app.js';
+import { startScrapeWorker } from './lib/scrape-queue.js';
 
 const port = Number(process.env.API_PORT ?? process.env.PORT ?? 3001);
 
@@ -8,3 +9,8 @@ app.listen(port, () => {
   // eslint-disable-next-line no-console
   console.log(`API listening on :${port}`);
 });
+
+startScrapeWorker().catch((err) => {
+  // eslint-disable-next-line no-console
+  console.error('Failed to start scrape worker', err);
+});
@@ -1,10 +1,17 @@
+import type { ActiveApiToken } from '../lib/api-tokens.js';
+import type { Pool } from '../lib/households.js';
+
 declare global {
   namespace Express {
     interface Request {
       userId?: number;
+      // The stored session the request came in on; unset for other kinds of auth.
+      sessionId?: number;
+      // Set when the request authenticated with a personal API token instead of a cookie.
+      apiToken?: ActiveApiToken;
+      pool?: Pool;
     }
   }
 }
 
 export {};
-
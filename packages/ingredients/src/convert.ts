@@ -0,0 +1,58 @@
+import { formatQuantity, parseIngredient, scaleIngredientLine } from './parse.js';
+import { amountInUnit, formatUnit, humanizeAmount, toBaseAmount, unitDimension, unitSystem } from './units.js';
+import type { UnitSystem } from './units.js';
+
+export type UnitPreference = 'original' | UnitSystem;
+
+export type DisplayOptions = {
+  multiplier?: number;
+  units?: UnitPreference;
+};
+
+/**
+ * Render an ingredient line for display: scaled by `multiplier` and, unless
+ * `units` is "original", with volume/weight converted to that system and
+ * rounded to a sensible unit (16 tbsp -> 1 cup, 1000 g -> 1 kg).
+ *
+ * Lines without a convertible quantity ("2 eggs", "salt to taste") are only
+ * scaled, keeping the text as written.
+ */
+export function formatIngredientLine(line: string, options: DisplayOptions = {}): string {
+  const multiplier = options.multiplier ?? 1;
+  const units = options.units ?? 'original';
+
+  if (units === 'original') {
+    return scaleIngredientLine(line, multiplier);
+  }
+
+  const parsed = parseIngredient(line);
+  const dimension = unitDimension(parsed.unit);
+  if (parsed.quantity === null || !parsed.unit || (dimension !== 'volume' && dimension !== 'mass')) {
+    return scaleIngredientLine(line, multiplier);
+  }
+
+  // Pick the unit from the upper end of a range so both ends read naturally ("0.5 - 1 l").
+  const base = toBaseAmount(parsed.quantity * multiplier, parsed.unit)!;
+  const baseMax = parsed.quantityMax !== null ? toBaseAmount(parsed.quantityMax * multiplier, parsed.unit)! : null;
+  const converted = humanizeAmount(baseMax ?? base, dimension, units);
+  const min = baseMax !== null ? amountInUnit(base, converted.unit) : converted.quantity;
+
+  const minText = formatAmount(min, converted.unit);
+  const maxText = formatAmount(converted.quantity, converted.unit);
+  const amount = baseMax !== null && minText !== maxText ? `${minText} - ${maxText}` : maxText;
+
+  return [
+    amount,
+    formatUnit(converted.unit, converted.quantity),
+    parsed.item + (parsed.preparation ? `, ${parsed.preparation}` : ''),
+    parsed.note ? `(${parsed.note})` : ''
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** Metric amounts read as decimals ("1.4 kg"); eighths are only for US measures. */
+function formatAmount(quantity: number, unitKey: string): string {
+  if (unitSystem(unitKey) !== 'metric') return formatQuantity(quantity);
+  return String(Math.round(quantity * 10) / 10);
+}
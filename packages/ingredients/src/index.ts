@@ -0,0 +1,16 @@
+export type { ParsedIngredient } from './parse.js';
+export {
+  formatQuantity,
+  normalizeFractions,
+  parseFirstNumber,
+  parseIngredient,
+  parseIngredients,
+  parseQuantityToken,
+  scaleIngredientLine
+} from './parse.js';
+
+export type { UnitDef, UnitDimension, UnitSystem } from './units.js';
+export { amountInUnit, formatUnit, humanizeAmount, lookupUnit, toBaseAmount, unitDimension, unitSystem } from './units.js';
+
+export type { DisplayOptions, UnitPreference } from './convert.js';
+export { formatIngredientLine } from './convert.js';
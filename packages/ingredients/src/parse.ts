@@ -0,0 +1,221 @@
+import { lookupUnit } from './units.js';
+
+export type ParsedIngredient = {
+  raw: string;
+  quantity: number | null;
+  quantityMax: number | null;
+  // Canonical unit key (see units.ts), e.g. "cup", "g", "clove".
+  unit: string | null;
+  item: string;
+  // How the item is prepared: "finely chopped", "sifted".
+  preparation: string | null;
+  // Everything else worth keeping: "(200g)", "to taste", "optional".
+  note: string | null;
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': '1/4',
+  '½': '1/2',
+  '¾': '3/4',
+  '⅐': '1/7',
+  '⅑': '1/9',
+  '⅒': '1/10',
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '⅕': '1/5',
+  '⅖': '2/5',
+  '⅗': '3/5',
+  '⅘': '4/5',
+  '⅙': '1/6',
+  '⅚': '5/6',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8'
+};
+
+const QTY = '(?:\\d+\\s+\\d+\\s*\\/\\s*\\d+|\\d+\\s*\\/\\s*\\d+|\\d+(?:\\.\\d+)?)';
+const LEADING_QTY_RE = new RegExp(`^\\s*(${QTY})(?:\\s*(?:-|–|to)\\s*(${QTY}))?\\s*(.*)$`, 'i');
+const SCALE_RE = new RegExp(`^\\s*(${QTY})(\\s*(?:-|–|to)\\s*(${QTY}))?(.*)$`, 'i');
+
+export function normalizeFractions(text: string): string {
+  // Convert unicode fractions to ascii fractions so downstream parsing can be simple.
+  // Example: "1½" -> "1 1/2"
+  return text
+    .replace(/[¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, (m) => ` ${UNICODE_FRACTIONS[m] ?? m} `)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseQuantityToken(token: string): number | null {
+  const s = normalizeFractions(token);
+
+  const mixed = s.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)\b/);
+  if (mixed) {
+    const den = Number(mixed[3]);
+    if (den !== 0) return Number(mixed[1]) + Number(mixed[2]) / den;
+  }
+
+  const frac = s.match(/^(\d+)\s*\/\s*(\d+)\b/);
+  if (frac) {
+    const den = Number(frac[2]);
+    if (den !== 0) return Number(frac[1]) / den;
+  }
+
+  const dec = s.match(/^(\d+(?:\.\d+)?)/);
+  if (dec) {
+    const n = Number(dec[1]);
+    if (Number.isFinite(n)) return n;
+  }
+
+  return null;
+}
+
+export function parseFirstNumber(text: string): number | undefined {
+  const s = normalizeFractions(text);
+  const m = s.match(new RegExp(QTY));
+  return m ? parseQuantityToken(m[0]) ?? undefined : undefined;
+}
+
+function gcd(a: number, b: number): number {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y) {
+    const t = x % y;
+    x = y;
+    y = t;
+  }
+  return x || 1;
+}
+
+export function formatQuantity(value: number): string {
+  if (!Number.isFinite(value)) return '';
+
+  const roundedInt = Math.round(value);
+  if (Math.abs(value - roundedInt) < 1e-9) return String(roundedInt);
+
+  // Prefer common cooking fractions (nearest 1/8) if it fits well.
+  const eighth = Math.round(value * 8) / 8;
+  if (Math.abs(value - eighth) < 0.02) {
+    const whole = Math.floor(eighth + 1e-9);
+    const num0 = Math.round((eighth - whole) * 8);
+    if (num0 === 0) return String(whole);
+    const g = gcd(num0, 8);
+    const frac = `${num0 / g}/${8 / g}`;
+    return whole > 0 ? `${whole} ${frac}` : frac;
+  }
+
+  // Fall back to a trimmed decimal.
+  return String(Math.round(value * 100) / 100);
+}
+
+function takeUnit(rest: string): { unit: string | null; remainder: string } {
+  // Try two-word units ("fl oz", "fluid ounces") before single words.
+  const words = rest.split(/\s+/);
+  for (const count of [2, 1]) {
+    if (words.length < count) continue;
+    const candidate = words.slice(0, count).join(' ');
+    const unit = lookupUnit(candidate);
+    if (unit) {
+      return { unit: unit.key, remainder: words.slice(count).join(' ') };
+    }
+  }
+
+  return { unit: null, remainder: rest };
+}
+
+function takeParenthetical(rest: string, notes: string[]): string {
+  const m = rest.match(/^\(([^)]*)\)\s*(.*)$/);
+  if (!m) return rest;
+  if (m[1]?.trim()) notes.push(m[1].trim());
+  return m[2] ?? '';
+}
+
+// Trailing phrases that describe the shopping/usage rather than the preparation.
+const NOTE_RE = /^(?:to taste|optional|divided|as needed|for (?:serving|garnish|the .*)|plus more.*|or .*)$/i;
+
+function splitItem(rest: string, notes: string[]): { item: string; preparation: string | null } {
+  let text = rest.replace(/^of\s+/i, '');
+
+  // Inline parentheticals anywhere in the item: "flour (all-purpose)".
+  text = text.replace(/\(([^)]*)\)/g, (_m, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return ' ';
+  });
+
+  const [head, ...tail] = text.split(',');
+  const preparation: string[] = [];
+  for (const part of tail.map((p) => p.trim()).filter(Boolean)) {
+    if (NOTE_RE.test(part)) notes.push(part);
+    else preparation.push(part);
+  }
+
+  return {
+    item: (head ?? '').replace(/\s+/g, ' ').trim(),
+    preparation: preparation.length ? preparation.join(', ') : null
+  };
+}
+
+/**
+ * Parse one ingredient line, e.g. "1 1/2 cups (200g) flour, sifted" into
+ * `{ quantity: 1.5, unit: 'cup', item: 'flour', preparation: 'sifted', note: '200g' }`.
+ * Lines without a leading quantity ("Salt, to taste") keep quantity/unit null.
+ */
+export function parseIngredient(raw: string): ParsedIngredient {
+  const text = normalizeFractions(raw);
+  const notes: string[] = [];
+  const match = text.match(LEADING_QTY_RE);
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  let unit: string | null = null;
+  let rest = text;
+
+  if (match) {
+    quantity = parseQuantityToken(match[1] ?? '');
+    quantityMax = match[2] ? parseQuantityToken(match[2]) : null;
+    rest = takeParenthetical(match[3] ?? '', notes);
+    const taken = takeUnit(rest);
+    unit = taken.unit;
+    rest = takeParenthetical(taken.remainder, notes);
+  }
+
+  const { item, preparation } = splitItem(rest, notes);
+
+  return {
+    raw,
+    quantity,
+    quantityMax,
+    unit,
+    item,
+    preparation,
+    note: notes.length ? notes.join('; ') : null
+  };
+}
+
+export function parseIngredients(lines: unknown): ParsedIngredient[] {
+  if (!Array.isArray(lines)) return [];
+  return lines.filter((l): l is string => typeof l === 'string' && Boolean(l.trim())).map(parseIngredient);
+}
+
+/**
+ * Scale the leading quantity (or range) of a line for display, keeping the
+ * rest of the text as written: "1-2 cups milk" x2 -> "2 - 4 cups milk".
+ */
+export function scaleIngredientLine(line: string, multiplier: number): string {
+  if (!line || !Number.isFinite(multiplier) || multiplier === 1) return line;
+
+  const m = normalizeFractions(line).match(SCALE_RE);
+  if (!m) return line;
+
+  const a = parseQuantityToken(m[1] ?? '');
+  if (a === null) return line;
+  const suffix = m[4] ?? '';
+  const scaledA = formatQuantity(a * multiplier);
+
+  const b = m[3] ? parseQuantityToken(m[3]) : null;
+  if (b === null) return `${scaledA}${suffix}`.replace(/\s+/g, ' ').trim();
+
+  const sep = (m[2] ?? '').replace(m[3] ?? '', '').trim() || '-';
+  return `${scaledA} ${sep} ${formatQuantity(b * multiplier)}${suffix}`.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,151 @@
+export type UnitDimension = 'volume' | 'mass' | 'count';
+export type UnitSystem = 'us' | 'metric';
+
+export type UnitDef = {
+  key: string;
+  dimension: UnitDimension;
+  // Size in the dimension's base unit (ml for volume, g for mass).
+  toBase: number;
+  system?: UnitSystem;
+  aliases: string[];
+};
+
+const UNITS: UnitDef[] = [
+  { key: 'tsp', dimension: 'volume', toBase: 4.92892, system: 'us', aliases: ['t', 'tsp', 'tsps', 'teaspoon', 'teaspoons'] },
+  { key: 'tbsp', dimension: 'volume', toBase: 14.7868, system: 'us', aliases: ['T', 'tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'] },
+  { key: 'fl oz', dimension: 'volume', toBase: 29.5735, system: 'us', aliases: ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'] },
+  { key: 'cup', dimension: 'volume', toBase: 236.588, system: 'us', aliases: ['c', 'cup', 'cups'] },
+  { key: 'pint', dimension: 'volume', toBase: 473.176, system: 'us', aliases: ['pt', 'pint', 'pints'] },
+  { key: 'quart', dimension: 'volume', toBase: 946.353, system: 'us', aliases: ['qt', 'qts', 'quart', 'quarts'] },
+  { key: 'gallon', dimension: 'volume', toBase: 3785.41, system: 'us', aliases: ['gal', 'gallon', 'gallons'] },
+  { key: 'ml', dimension: 'volume', toBase: 1, system: 'metric', aliases: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  { key: 'cl', dimension: 'volume', toBase: 10, system: 'metric', aliases: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { key: 'dl', dimension: 'volume', toBase: 100, system: 'metric', aliases: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { key: 'l', dimension: 'volume', toBase: 1000, system: 'metric', aliases: ['l', 'L', 'liter', 'liters', 'litre', 'litres'] },
+  { key: 'mg', dimension: 'mass', toBase: 0.001, system: 'metric', aliases: ['mg', 'milligram', 'milligrams'] },
+  { key: 'g', dimension: 'mass', toBase: 1, system: 'metric', aliases: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'] },
+  { key: 'kg', dimension: 'mass', toBase: 1000, system: 'metric', aliases: ['kg', 'kgs', 'kilogram', 'kilograms', 'kilo', 'kilos'] },
+  { key: 'oz', dimension: 'mass', toBase: 28.3495, system: 'us', aliases: ['oz', 'ounce', 'ounces'] },
+  { key: 'lb', dimension: 'mass', toBase: 453.592, system: 'us', aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  ...[
+    ['clove', 'cloves'],
+    ['can', 'cans', 'tin', 'tins'],
+    ['package', 'packages', 'pkg', 'packet', 'packets'],
+    ['pinch', 'pinches'],
+    ['dash', 'dashes'],
+    ['slice', 'slices'],
+    ['piece', 'pieces'],
+    ['bunch', 'bunches'],
+    ['sprig', 'sprigs'],
+    ['stick', 'sticks'],
+    ['head', 'heads'],
+    ['handful', 'handfuls']
+  ].map(([key, ...rest]) => ({ key: key!, dimension: 'count' as const, toBase: 1, aliases: [key!, ...rest] }))
+];
+
+const UNIT_BY_KEY = new Map(UNITS.map((u) => [u.key, u]));
+
+// Single-letter aliases are case-sensitive ("T" is a tablespoon, "t" a teaspoon).
+const UNIT_BY_ALIAS = new Map<string, UnitDef>();
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    UNIT_BY_ALIAS.set(alias.length === 1 ? alias : alias.toLowerCase(), unit);
+  }
+}
+
+export function lookupUnit(raw: string): UnitDef | undefined {
+  const cleaned = raw.trim().replace(/\.$/, '');
+  if (!cleaned) return undefined;
+  return UNIT_BY_ALIAS.get(cleaned.length === 1 ? cleaned : cleaned.toLowerCase());
+}
+
+export function unitDimension(key: string | null | undefined): UnitDimension | null {
+  if (!key) return null;
+  return UNIT_BY_KEY.get(key)?.dimension ?? null;
+}
+
+export function unitSystem(key: string | null | undefined): UnitSystem | null {
+  if (!key) return null;
+  return UNIT_BY_KEY.get(key)?.system ?? null;
+}
+
+export function toBaseAmount(quantity: number, unitKey: string): number | null {
+  const unit = UNIT_BY_KEY.get(unitKey);
+  if (!unit || unit.dimension === 'count') return null;
+  return quantity * unit.toBase;
+}
+
+// Display ladders, smallest first. A unit is used once the amount reaches its threshold
+// (in base units), so 16 tbsp becomes 1 cup and 1000 g becomes 1 kg.
+const LADDERS: Record<UnitSystem, Record<'volume' | 'mass', Array<{ key: string; threshold: number }>>> = {
+  us: {
+    volume: [
+      { key: 'tsp', threshold: 0 },
+      { key: 'tbsp', threshold: 14.7868 },
+      { key: 'cup', threshold: 59.147 }, // 1/4 cup
+      { key: 'quart', threshold: 946.353 },
+      { key: 'gallon', threshold: 3785.41 }
+    ],
+    mass: [
+      { key: 'oz', threshold: 0 },
+      { key: 'lb', threshold: 453.592 }
+    ]
+  },
+  metric: {
+    // Spoons are used in metric kitchens too; nobody measures "5 ml" of salt.
+    volume: [
+      { key: 'tsp', threshold: 0 },
+      { key: 'tbsp', threshold: 14.7868 },
+      { key: 'ml', threshold: 60 },
+      { key: 'l', threshold: 1000 }
+    ],
+    mass: [
+      { key: 'g', threshold: 0 },
+      { key: 'kg', threshold: 1000 }
+    ]
+  }
+};
+
+/**
+ * Express a base amount (ml or g) in the most readable unit of `system`,
+ * rounded to values a cook would actually measure.
+ */
+export function humanizeAmount(
+  baseAmount: number,
+  dimension: 'volume' | 'mass',
+  system: UnitSystem
+): { quantity: number; unit: string } {
+  const ladder = LADDERS[system][dimension];
+  let chosen = ladder[0]!;
+  for (const step of ladder) {
+    if (baseAmount + 1e-9 >= step.threshold) chosen = step;
+  }
+
+  return { quantity: amountInUnit(baseAmount, chosen.key), unit: chosen.key };
+}
+
+/** Base amount (ml or g) expressed in `unitKey`, with the same rounding as `humanizeAmount`. */
+export function amountInUnit(baseAmount: number, unitKey: string): number {
+  const unit = UNIT_BY_KEY.get(unitKey);
+  if (!unit) throw new Error(`Unknown unit: ${unitKey}`);
+  return roundForUnit(baseAmount / unit.toBase, unitKey);
+}
+
+function roundForUnit(quantity: number, unitKey: string): number {
+  if (unitKey === 'g' || unitKey === 'ml') {
+    // Nobody weighs 237 g of flour; round to 5 above 50, otherwise whole units.
+    return quantity >= 50 ? Math.round(quantity / 5) * 5 : Math.max(1, Math.round(quantity));
+  }
+  if (unitKey === 'kg' || unitKey === 'l') {
+    return Math.round(quantity * 100) / 100;
+  }
+  // US measures: nearest 1/8, but never round a non-zero amount down to zero.
+  return Math.max(0.125, Math.round(quantity * 8) / 8);
+}
+
+const PLURAL_UNITS = new Set(['cup', 'pint', 'quart', 'gallon', ...UNITS.filter((u) => u.dimension === 'count').map((u) => u.key)]);
+
+export function formatUnit(unitKey: string, quantity: number | null): string {
+  if (quantity === null || quantity <= 1 || !PLURAL_UNITS.has(unitKey)) return unitKey;
+  return /(?:ch|sh)$/.test(unitKey) ? `${unitKey}es` : `${unitKey}s`;
+}
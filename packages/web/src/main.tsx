@@ -2,10 +2,26 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 
 import { App } from './ui/App';
+import { ResetPassword, VerifyEmail } from './ui/EmailLinks';
+import { SharedRecipe } from './ui/SharedRecipe';
 import './styles.css';
 
+const params = new URLSearchParams(window.location.search);
+// Share links (?share=<token>) get the public recipe view, no sign-in needed.
+const shareToken = params.get('share');
+// Links from password reset and verification emails.
+const resetToken = params.get('reset');
+const verifyToken = params.get('verify');
+
+function Root() {
+  if (shareToken) return <SharedRecipe token={shareToken} />;
+  if (resetToken) return <ResetPassword token={resetToken} />;
+  if (verifyToken) return <VerifyEmail token={verifyToken} />;
+  return <App />;
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
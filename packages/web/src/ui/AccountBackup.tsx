@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+
+import type { AccountImportReport } from './api';
+import { accountExportUrl, importAccount } from './api';
+
+export function AccountBackup({ onRestored, onError }: { onRestored: () => Promise<void>; onError: (message: string) => void }) {
+  const [images, setImages] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<AccountImportReport | null>(null);
+
+  async function onRestore(e: React.FormEvent) {
+    e.preventDefault();
+    if (!file) return;
+    setBusy(true);
+    try {
+      setReport(await importAccount(file));
+      setFile(null);
+      await onRestored();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="import-panel">
+      <summary>Backup &amp; restore</summary>
+      <div className="recipe-facts">Recipes, notes, tags, meal plans, cooking history and shopping lists</div>
+      <div className="row" style={{ marginTop: '0.4rem', justifyContent: 'space-between' }}>
+        <label className="recipe-facts">
+          <input type="checkbox" checked={images} onChange={(e) => setImages(e.target.checked)} /> Include images (zip, slower)
+        </label>
+        <a className="btn" href={accountExportUrl({ images })} download>
+          Download backup
+        </a>
+      </div>
+
+      <form onSubmit={onRestore} style={{ marginTop: '0.8rem' }}>
+        <div className="row" style={{ justifyContent: 'space-between' }}>
+          <input
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            aria-label="Backup file"
+          />
+          <button className="btn primary" type="submit" disabled={busy || !file}>
+            Restore
+          </button>
+        </div>
+      </form>
+
+      {report && (
+        <div className="recipe-facts" style={{ marginTop: '0.5rem' }}>
+          {report.recipes.created} recipes added · {report.recipes.updated} updated · {report.plannedMeals} planned meals ·{' '}
+          {report.cookEvents.created} cooks logged · {report.shoppingLists.created} shopping lists
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+
+import type { LinkedIdentity } from './api';
+import { changePassword, getAuthProviders, listIdentities, oidcSignInUrl, resendVerificationEmail, unlinkIdentity } from './api';
+
+export function VerifyEmailNotice({ onError }: { onError: (message: string) => void }) {
+  const [sent, setSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function onResend() {
+    setBusy(true);
+    try {
+      await resendVerificationEmail();
+      setSent(true);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="recipe-facts">
+      {sent
+        ? 'Sent; check your inbox for the confirmation link.'
+        : 'Confirm your email so you can reset your password if you forget it.'}{' '}
+      {!sent && (
+        <button className="btn" type="button" disabled={busy} onClick={() => void onResend()}>
+          Send the link again
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function ChangePassword({ onError }: { onError: (message: string) => void }) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [done, setDone] = useState(false);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setDone(false);
+    try {
+      await changePassword({ currentPassword, newPassword });
+      setCurrentPassword('');
+      setNewPassword('');
+      setDone(true);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="import-panel">
+      <summary>Change password</summary>
+      <form onSubmit={onSubmit}>
+        <div className="row" style={{ marginTop: '0.4rem' }}>
+          <input
+            className="input"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+          />
+        </div>
+        <div className="row" style={{ marginTop: '0.4rem' }}>
+          <input
+            className="input"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password (8+ chars)"
+          />
+          <button className="btn primary" type="submit" disabled={busy || !currentPassword || newPassword.length < 8}>
+            Change
+          </button>
+        </div>
+      </form>
+      {done && <div className="recipe-facts">Password changed. Other devices have been signed out and API tokens revoked.</div>}
+    </details>
+  );
+}
+
+// Only shown when the API has single sign-on configured.
+export function LinkedAccounts({ onError }: { onError: (message: string) => void }) {
+  const [providerName, setProviderName] = useState<string | null>(null);
+  const [identities, setIdentities] = useState<LinkedIdentity[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    void getAuthProviders()
+      .then((providers) => setProviderName(providers.oidc?.name ?? null))
+      .catch(() => undefined);
+  }, []);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      setIdentities(await listIdentities());
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!providerName) return null;
+
+  return (
+    <details
+      className="import-panel"
+      onToggle={(e) => {
+        if ((e.target as HTMLDetailsElement).open) void run(async () => undefined);
+      }}
+    >
+      <summary>Linked sign-in</summary>
+      {identities && (
+        <ul className="session-list">
+          {identities.map((identity) => (
+            <li key={identity.id} className="row">
+              <span>
+                {identity.email ?? 'Account'}
+                <div className="recipe-facts">{identity.issuer}</div>
+              </span>
+              <button className="btn" type="button" disabled={busy} onClick={() => void run(() => unlinkIdentity(identity.id))}>
+                Unlink
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="row" style={{ marginTop: '0.6rem' }}>
+        <a className="btn" href={oidcSignInUrl({ link: true })}>
+          Link your {providerName} account
+        </a>
+      </div>
+    </details>
+  );
+}
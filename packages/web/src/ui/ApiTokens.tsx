@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+
+import type { ApiToken } from './api';
+import { createApiToken, listApiTokens, revokeApiToken } from './api';
+
+const EXPIRY_OPTIONS: Array<{ label: string; days?: number }> = [
+  { label: '30 days', days: 30 },
+  { label: '1 year', days: 365 },
+  { label: 'Never' }
+];
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString([], { dateStyle: 'medium' }) : 'never';
+}
+
+// Bearer tokens for scripts and integrations; see the README for usage.
+export function ApiTokens({ onError }: { onError: (message: string) => void }) {
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null);
+  const [allScopes, setAllScopes] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(['recipes:read']);
+  const [expiry, setExpiry] = useState(EXPIRY_OPTIONS[1]!.label);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      const data = await listApiTokens();
+      setTokens(data.tokens);
+      setAllScopes(data.scopes);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggleScope(scope: string) {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  }
+
+  function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim() || !scopes.length) return;
+    void run(async () => {
+      const days = EXPIRY_OPTIONS.find((o) => o.label === expiry)?.days;
+      const created = await createApiToken({ name: name.trim(), scopes, expiresInDays: days });
+      setNewToken(created.token);
+      setName('');
+    });
+  }
+
+  function onRevoke(token: ApiToken) {
+    if (!window.confirm(`Revoke “${token.name}”? Anything using it stops working.`)) return;
+    void run(() => revokeApiToken(token.id));
+  }
+
+  return (
+    // Loaded on first open, like the device list.
+    <details
+      className="import-panel"
+      onToggle={(e) => {
+        if ((e.target as HTMLDetailsElement).open && !tokens) void run(async () => undefined);
+      }}
+    >
+      <summary>API tokens</summary>
+      {tokens && !!tokens.length && (
+        <ul className="session-list">
+          {tokens.map((t) => (
+            <li key={t.id} className="row">
+              <span>
+                {t.name}
+                <div className="recipe-facts">
+                  {t.scopes.join(', ')} · last used {formatDate(t.lastUsedAt)} · expires {formatDate(t.expiresAt)}
+                </div>
+              </span>
+              <button className="btn" type="button" disabled={busy} onClick={() => onRevoke(t)}>
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={onCreate} style={{ marginTop: '0.4rem' }}>
+        <div className="row">
+          <input className="input" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Home Assistant" />
+          <select className="select" value={expiry} onChange={(e) => setExpiry(e.target.value)} aria-label="Expires after">
+            {EXPIRY_OPTIONS.map((o) => (
+              <option key={o.label} value={o.label}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+          <button className="btn" type="submit" disabled={busy || !name.trim() || !scopes.length}>
+            Create
+          </button>
+        </div>
+        <div className="row" style={{ marginTop: '0.4rem', flexWrap: 'wrap' }}>
+          {allScopes.map((scope) => (
+            <label key={scope}>
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} /> {scope}
+            </label>
+          ))}
+        </div>
+      </form>
+      {newToken && (
+        <div className="recipe-facts" style={{ marginTop: '0.4rem' }}>
+          Copy it now; it is shown only once: <input className="input" readOnly value={newToken} />
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,21 +1,72 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 
-import type { AuthUser, Recipe } from './api';
-import { authLogin, authLogout, authMe, authRegister, createRecipe, deleteRecipe, getRecipe, listRecipes, rescrapeRecipe, updateRecipe } from './api';
-
-function RecipeBanner({ title, imageUrl }: { title: string; imageUrl?: string | null }) {
-  const [hidden, setHidden] = useState(false);
-  if (!imageUrl || hidden) return null;
+import { formatIngredientLine, formatQuantity, normalizeFractions, parseQuantityToken } from '@meal-rotation/ingredients';
+import type { UnitPreference } from '@meal-rotation/ingredients';
+
+import type { AuthProviders, AuthUser, CookEvent, Recipe, RecipeFacets, RecipeField, RecipeFields, RecipeSearch, RecipeSort, ScrapeJob } from './api';
+import {
+  authLogin,
+  authLogout,
+  authMe,
+  authRegister,
+  createManualRecipe,
+  createRecipe,
+  createShoppingList,
+  deleteCookEvent,
+  deleteRecipe,
+  getAuthProviders,
+  getRecipe,
+  getRecipeFacets,
+  listCookEvents,
+  listScrapeJobs,
+  listRecipes,
+  logCooked,
+  oidcSignInUrl,
+  recipeImageUrl,
+  requestPasswordReset,
+  rescrapeRecipe,
+  setPersonalNote,
+  shareRecipe,
+  unshareRecipe,
+  updatePreferences,
+  updateRecipe
+} from './api';
+import { AccountBackup } from './AccountBackup';
+import { ChangePassword, LinkedAccounts, VerifyEmailNotice } from './AccountSecurity';
+import { ApiTokens } from './ApiTokens';
+import { Household } from './Household';
+import { ImportRecipes } from './ImportRecipes';
+import { Pantry } from './Pantry';
+import { Sessions } from './Sessions';
+import { ShoppingLists } from './ShoppingLists';
+import { TagManager } from './TagManager';
+import { WeekPlan } from './WeekPlan';
+
+function RecipeBanner({
+  title,
+  imageUrl,
+  image,
+  size
+}: {
+  title: string;
+  imageUrl?: string | null;
+  image?: { id: number } | null;
+  size: 'list' | 'banner';
+}) {
+  // The cached copy first; the source URL only if that fails (say, it was just replaced).
+  const [failed, setFailed] = useState<string[]>([]);
+  const src = [image ? recipeImageUrl(image.id, size) : null, imageUrl].find((s) => s && !failed.includes(s));
+  if (!src) return null;
 
   return (
     <div className="recipe-banner" aria-hidden="true">
       <img
         className="recipe-banner-img"
-        src={imageUrl}
+        src={src}
         alt={title ? `${title} banner` : 'Recipe banner'}
         loading="lazy"
         referrerPolicy="no-referrer"
-        onError={() => setHidden(true)}
+        onError={() => setFailed((prev) => [...prev, src])}
       />
       <div className="recipe-banner-fade" />
     </div>
@@ -55,136 +106,161 @@ function normalizeLines(value: unknown): string[] {
     .filter(Boolean);
 }
 
-function stripLeadingStepNumber(s: string): string {
-  // Avoid "1. 1. Step" when the source already numbers each line.
-  return s.replace(/^\s*(?:step\s*)?\d+\s*[\).\:-]\s*/i, '').trim();
+function splitTags(text: string): string[] {
+  return text
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
 }
 
-const UNICODE_FRACTIONS: Record<string, string> = {
-  '¼': '1/4',
-  '½': '1/2',
-  '¾': '3/4',
-  '⅐': '1/7',
-  '⅑': '1/9',
-  '⅒': '1/10',
-  '⅓': '1/3',
-  '⅔': '2/3',
-  '⅕': '1/5',
-  '⅖': '2/5',
-  '⅗': '3/5',
-  '⅘': '4/5',
-  '⅙': '1/6',
-  '⅚': '5/6',
-  '⅛': '1/8',
-  '⅜': '3/8',
-  '⅝': '5/8',
-  '⅞': '7/8'
+type RecipeDraft = {
+  title: string;
+  description: string;
+  imageUrl: string;
+  servings: string;
+  ingredients: string;
+  instructions: string;
+  totalMinutes: string;
+  notes: string;
+  // Comma-separated.
+  tags: string;
 };
 
-const MIN_MULTIPLIER = 0.1;
-const MAX_MULTIPLIER = 10;
+const EMPTY_DRAFT: RecipeDraft = {
+  title: '',
+  description: '',
+  imageUrl: '',
+  servings: '',
+  ingredients: '',
+  instructions: '',
+  totalMinutes: '',
+  notes: '',
+  tags: ''
+};
 
-function normalizeFractions(text: string): string {
-  // "1½" -> "1 1/2"
-  return text.replace(/[¼½¾⅐⅑⅒⅓⅔⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, (m) => ` ${UNICODE_FRACTIONS[m] ?? m} `).replace(/\s+/g, ' ');
-}
+const FIELD_LABELS: Record<RecipeField, string> = {
+  title: 'title',
+  description: 'description',
+  imageUrl: 'image',
+  servings: 'servings',
+  servingsText: 'yield',
+  ingredients: 'ingredients',
+  instructions: 'instructions',
+  totalMinutes: 'total time'
+};
 
-function gcd(a: number, b: number): number {
-  let x = Math.abs(a);
-  let y = Math.abs(b);
-  while (y) {
-    const t = x % y;
-    x = y;
-    y = t;
-  }
-  return x || 1;
+// schema.org NutritionInformation property names, in the order a label would list them.
+const NUTRITION_LABELS: Array<[string, string]> = [
+  ['servingSize', 'Serving'],
+  ['calories', 'Calories'],
+  ['fatContent', 'Fat'],
+  ['saturatedFatContent', 'Saturated fat'],
+  ['carbohydrateContent', 'Carbs'],
+  ['sugarContent', 'Sugar'],
+  ['fiberContent', 'Fiber'],
+  ['proteinContent', 'Protein'],
+  ['sodiumContent', 'Sodium'],
+  ['cholesterolContent', 'Cholesterol']
+];
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m ? `${h} h ${m} min` : `${h} h`;
 }
 
-function formatQuantity(value: number): string {
-  if (!Number.isFinite(value)) return '';
-
-  const roundedInt = Math.round(value);
-  if (Math.abs(value - roundedInt) < 1e-9) return String(roundedInt);
-
-  // Prefer common cooking fractions (nearest 1/8) if it fits well.
-  const eighth = Math.round(value * 8) / 8;
-  if (Math.abs(value - eighth) < 0.02) {
-    const whole = Math.floor(eighth + 1e-9);
-    const frac = eighth - whole;
-    const num0 = Math.round(frac * 8);
-    const den0 = 8;
-    if (num0 === 0) return String(whole);
-    const g = gcd(num0, den0);
-    const num = num0 / g;
-    const den = den0 / g;
-    return whole > 0 ? `${whole} ${num}/${den}` : `${num}/${den}`;
+function recipeFacts(recipe: Recipe): string[] {
+  const facts: string[] = [];
+  if (recipe.prepMinutes) facts.push(`Prep ${formatMinutes(recipe.prepMinutes)}`);
+  if (recipe.cookMinutes) facts.push(`Cook ${formatMinutes(recipe.cookMinutes)}`);
+  if (recipe.totalMinutes) facts.push(`Total ${formatMinutes(recipe.totalMinutes)}`);
+  if (recipe.author) facts.push(`By ${recipe.author}`);
+  if (recipe.ratingValue) {
+    const count = recipe.ratingCount ? ` (${recipe.ratingCount})` : '';
+    facts.push(`★ ${Math.round(recipe.ratingValue * 10) / 10}${count}`);
   }
-
-  // Fall back to a trimmed decimal.
-  return String(Math.round(value * 100) / 100).replace(/\.0+$/, '').replace(/(\.\d*[1-9])0+$/, '$1');
+  return facts;
 }
 
-function parseQuantityToken(token: string): number | null {
-  const s = normalizeFractions(token).trim();
+function draftFromRecipe(recipe: Recipe): RecipeDraft {
+  return {
+    title: recipe.title ?? '',
+    description: recipe.description ?? '',
+    imageUrl: recipe.imageUrl ?? '',
+    servings: recipe.servings ? String(recipe.servings) : '',
+    ingredients: stringifyList(recipe.ingredients),
+    instructions: stringifyList(recipe.instructions),
+    totalMinutes: recipe.totalMinutes ? String(recipe.totalMinutes) : '',
+    notes: (recipe.notes ?? '').toString(),
+    tags: (recipe.tags ?? []).join(', ')
+  };
+}
 
-  const mixed = s.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)\b/);
-  if (mixed) {
-    const whole = Number(mixed[1]);
-    const num = Number(mixed[2]);
-    const den = Number(mixed[3]);
-    if (Number.isFinite(whole) && Number.isFinite(num) && Number.isFinite(den) && den !== 0) {
-      return whole + num / den;
-    }
+// Only send what actually changed: every scraped field sent is pinned against re-scrapes.
+function draftChanges(recipe: Recipe, draft: RecipeDraft): RecipeFields {
+  const before = draftFromRecipe(recipe);
+  const changes: RecipeFields = {};
+  const changed = (key: keyof RecipeDraft) => draft[key].trim() !== before[key].trim();
+
+  if (changed('title') && draft.title.trim()) changes.title = draft.title.trim();
+  if (changed('description')) changes.description = draft.description.trim() || null;
+  if (changed('imageUrl')) changes.imageUrl = draft.imageUrl.trim() || null;
+  if (changed('servings')) {
+    const servings = Number.parseFloat(draft.servings);
+    changes.servings = Number.isFinite(servings) && servings > 0 ? servings : null;
   }
-
-  const frac = s.match(/^(\d+)\s*\/\s*(\d+)\b/);
-  if (frac) {
-    const num = Number(frac[1]);
-    const den = Number(frac[2]);
-    if (Number.isFinite(num) && Number.isFinite(den) && den !== 0) {
-      return num / den;
-    }
+  if (changed('ingredients')) changes.ingredients = normalizeLines(draft.ingredients);
+  if (changed('instructions')) changes.instructions = normalizeLines(draft.instructions);
+  if (changed('totalMinutes')) {
+    const minutes = Number.parseInt(draft.totalMinutes, 10);
+    changes.totalMinutes = Number.isInteger(minutes) && minutes > 0 ? minutes : null;
   }
+  if (changed('notes')) changes.notes = draft.notes.trim() ? draft.notes : null;
+  if (changed('tags')) changes.tags = splitTags(draft.tags);
 
-  const dec = s.match(/^(\d+(?:\.\d+)?)/);
-  if (dec) {
-    const n = Number(dec[1]);
-    if (Number.isFinite(n)) return n;
-  }
+  return changes;
+}
 
+function scrapeJobSummary(job: ScrapeJob): string | null {
+  if (job.status === 'running') return `Scraping (attempt ${job.attempts} of ${job.maxAttempts})…`;
+  if (job.status === 'queued' && job.attempts > 0) {
+    const at = new Date(job.runAfter).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `Attempt ${job.attempts} of ${job.maxAttempts} failed (${job.lastError ?? 'unknown error'}); retrying at ${at}.`;
+  }
+  if (job.status === 'queued') return 'Waiting to be scraped…';
+  if (job.status === 'failed' && job.attempts > 1) return `Gave up after ${job.attempts} attempts.`;
   return null;
 }
 
-function scaleLeadingQuantity(line: string, multiplier: number): string {
-  if (!line || !Number.isFinite(multiplier) || multiplier === 1) return line;
-
-  const normalized = normalizeFractions(line);
-
-  const qty = '(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?)';
-  const re = new RegExp(`^(\\s*)(${qty})(\\s*(?:-|–|to)\\s*(${qty}))?(.*)$`, 'i');
-  const m = normalized.match(re);
-  if (!m) return line;
-
-  const prefix = m[1] ?? '';
-  const a = m[2] ?? '';
-  const b = m[4] ?? '';
-  const suffix = (m[5] ?? '').replace(/\s+/g, ' ');
-
-  const aNum = parseQuantityToken(a);
-  if (aNum === null) return line;
-  const aScaled = formatQuantity(aNum * multiplier);
+// Share links open the public read-only view (see main.tsx).
+function shareLink(token: string): string {
+  return `${window.location.origin}/?share=${encodeURIComponent(token)}`;
+}
 
-  if (b) {
-    const bNum = parseQuantityToken(b);
-    if (bNum === null) return `${prefix}${aScaled}${suffix}`;
-    const bScaled = formatQuantity(bNum * multiplier);
-    const sep = (m[3] ?? '').replace(b, '').trim() || '-';
-    return `${prefix}${aScaled} ${sep} ${bScaled}${suffix}`.replace(/\s+/g, ' ').trim();
+function isUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
   }
+}
 
-  return `${prefix}${aScaled}${suffix}`.replace(/\s+/g, ' ').trim();
+function stripLeadingStepNumber(s: string): string {
+  // Avoid "1. 1. Step" when the source already numbers each line.
+  return s.replace(/^\s*(?:step\s*)?\d+\s*[\).\:-]\s*/i, '').trim();
 }
 
+const MIN_MULTIPLIER = 0.1;
+const MAX_MULTIPLIER = 10;
+
+const UNIT_OPTIONS: Array<{ value: UnitPreference; label: string }> = [
+  { value: 'original', label: 'As written' },
+  { value: 'us', label: 'US' },
+  { value: 'metric', label: 'Metric' }
+];
+
 function scaleServingsLabel(recipe: Recipe, multiplier: number): string {
   const baseText = (recipe.servingsText ?? '').trim();
   const baseNum = typeof recipe.servings === 'number' && Number.isFinite(recipe.servings) ? recipe.servings : null;
@@ -224,6 +300,30 @@ function clampMultiplier(value: number): number {
   return Math.min(MAX_MULTIPLIER, Math.max(MIN_MULTIPLIER, value));
 }
 
+const PAGE_SIZE = 50;
+
+const SORT_LABELS: Record<RecipeSort, string> = {
+  relevance: 'Best match',
+  updated: 'Recently updated',
+  created: 'Recently added',
+  title: 'Title',
+  time: 'Quickest',
+  'longest-since-cooked': 'Longest since cooked',
+  'most-cooked': 'Most cooked'
+};
+
+const TIME_LIMITS = [15, 30, 45, 60, 90, 120];
+
+function formatCookedDate(value: string): string {
+  // Cook dates are calendar dates stored as UTC midnight.
+  return new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function cookedSummary(recipe: Recipe): string {
+  if (!recipe.timesCooked || !recipe.lastCookedAt) return 'Never cooked';
+  return `Cooked ${recipe.timesCooked}× · last ${formatCookedDate(recipe.lastCookedAt)}`;
+}
+
 export function App() {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
@@ -235,30 +335,78 @@ export function App() {
   const fullScreenPrevScrollYRef = useRef(0);
   const fullScreenWasOpenRef = useRef(false);
   const [sourceUrl, setSourceUrl] = useState('');
-  const [editTitle, setEditTitle] = useState('');
-  const [editNotes, setEditNotes] = useState('');
+  const [draft, setDraft] = useState<RecipeDraft>(EMPTY_DRAFT);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [checkedIngredientsByRecipeId, setCheckedIngredientsByRecipeId] = useState<Record<number, Record<number, boolean>>>({});
   const [multiplierByRecipeId, setMultiplierByRecipeId] = useState<Record<number, number>>({});
   const [multiplierDraftByRecipeId, setMultiplierDraftByRecipeId] = useState<Record<number, string>>({});
+  const [search, setSearch] = useState<RecipeSearch>({ page: 1 });
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<RecipeFacets>({ sourceHosts: [], tags: [] });
+  const [cookEvents, setCookEvents] = useState<CookEvent[]>([]);
+  const [cookRating, setCookRating] = useState('');
+  const [cookComment, setCookComment] = useState('');
+  // null until the user edits the selected recipe's personal note.
+  const [noteDraft, setNoteDraft] = useState<string | null>(null);
+  const [shoppingListId, setShoppingListId] = useState<number | null>(null);
+  const [scrapeJob, setScrapeJob] = useState<ScrapeJob | null>(null);
 
   const selectedSummary = useMemo(() => recipes.find((r) => r.id === selectedId) ?? null, [recipes, selectedId]);
+  // refreshList runs from many async handlers; read the filters through a ref so none sees a stale copy.
+  const searchRef = useRef(search);
+  searchRef.current = search;
 
   async function refreshList(nextSelectedId?: number | null) {
-    const data = await listRecipes();
-    setRecipes(data);
+    const [data, nextFacets] = await Promise.all([
+      listRecipes({ ...searchRef.current, pageSize: PAGE_SIZE }),
+      getRecipeFacets()
+    ]);
+    setRecipes(data.recipes);
+    setTotal(data.total);
+    setFacets(nextFacets);
+
+    // A selection outside the current results stays open; only an empty one picks the first match.
     const desiredSelectedId = nextSelectedId !== undefined ? nextSelectedId : selectedId;
     if (!desiredSelectedId) {
-      if (data.length) setSelectedId(data[0].id);
-      return;
+      setSelectedId(data.recipes.length ? data.recipes[0].id : null);
     }
+  }
 
-    if (!data.some((r) => r.id === desiredSelectedId)) {
-      setSelectedId(data.length ? data[0].id : null);
-    }
+  function updateSearch(patch: Partial<RecipeSearch>) {
+    // Any filter change starts over at the first page.
+    setSearch((current) => ({ ...current, page: 1, ...patch }));
   }
 
+  // Existing tags the recipe being edited doesn't have yet, most used first.
+  const suggestedTags = useMemo(() => {
+    const current = new Set(splitTags(draft.tags).map((t) => t.toLowerCase()));
+    return [...facets.tags]
+      .sort((a, b) => b.count - a.count)
+      .map((t) => t.tag)
+      .filter((tag) => !current.has(tag.toLowerCase()))
+      .slice(0, 12);
+  }, [draft.tags, facets.tags]);
+
+  // Chips narrow the list: every active tag has to be on a recipe.
+  function toggleTagFilter(tag: string) {
+    const current = search.tags ?? [];
+    const next = current.some((t) => t.toLowerCase() === tag.toLowerCase())
+      ? current.filter((t) => t.toLowerCase() !== tag.toLowerCase())
+      : [...current, tag];
+    updateSearch({ tags: next.length ? next : undefined });
+  }
+
+  // Typing in the search box shouldn't fire a request per keystroke.
+  useEffect(() => {
+    if (!user) return;
+    const timer = window.setTimeout(() => {
+      void refreshList().catch((e) => setError(e instanceof Error ? e.message : 'Unknown error'));
+    }, 250);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search]);
+
   useEffect(() => {
     void (async () => {
       try {
@@ -279,6 +427,7 @@ export function App() {
   useEffect(() => {
     if (!selectedId) {
       setSelected(null);
+      setCookEvents([]);
       return;
     }
 
@@ -286,11 +435,12 @@ export function App() {
     let cancelled = false;
 
     async function load() {
-      const r = await getRecipe(id);
+      const [r, events] = await Promise.all([getRecipe(id), listCookEvents(id)]);
       if (!cancelled) {
         setSelected(r);
-        setEditTitle(r.title ?? '');
-        setEditNotes((r.notes ?? '').toString());
+        setDraft(draftFromRecipe(r));
+        setNoteDraft(null);
+        setCookEvents(events);
       }
     }
 
@@ -301,6 +451,41 @@ export function App() {
     };
   }, [selectedId]);
 
+  // Scrapes run in a background queue; poll until the selected recipe settles.
+  useEffect(() => {
+    if (!selected || selected.scrapeStatus !== 'pending') {
+      setScrapeJob(null);
+      return;
+    }
+
+    const id = selected.id;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      void Promise.all([getRecipe(id), listScrapeJobs(id)])
+        .then(async ([r, jobs]) => {
+          if (cancelled) return;
+          setScrapeJob(jobs[0] ?? null);
+          if (r.scrapeStatus !== 'pending') {
+            setSelected(r);
+            setDraft(draftFromRecipe(r));
+            await refreshList();
+          } else {
+            // A fresh object re-arms this effect for the next poll.
+            setSelected({ ...r });
+          }
+        })
+        .catch((e) => {
+          if (!cancelled) setError(e instanceof Error ? e.message : 'Unknown error');
+        });
+    }, 3000);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected]);
+
   const fullScreenRecipe = useMemo(() => {
     if (!fullScreenRecipeId) return null;
     if (selected?.id === fullScreenRecipeId) return selected;
@@ -362,6 +547,34 @@ export function App() {
     window.scrollTo({ top: fullScreenPrevScrollYRef.current, behavior: 'auto' });
   }, [fullScreenRecipeId]);
 
+  function renderDetails(recipe: Recipe) {
+    const facts = recipeFacts(recipe);
+    const labels = [...(recipe.cuisine ?? []), ...(recipe.category ?? []), ...(recipe.keywords ?? [])];
+    const nutrition = NUTRITION_LABELS.filter(([key]) => recipe.nutrition?.[key]);
+    if (!facts.length && !labels.length && !nutrition.length) return null;
+
+    return (
+      <div className="kv">
+        <b>Details</b>
+        {!!facts.length && <div className="recipe-facts">{facts.join(' · ')}</div>}
+        {!!labels.length && (
+          <div className="row recipe-labels">
+            {[...new Set(labels)].map((label) => (
+              <span key={label} className="badge">
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+        {!!nutrition.length && (
+          <div className="recipe-facts">
+            {nutrition.map(([key, label]) => `${label} ${recipe.nutrition![key]}`).join(' · ')}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   function renderIngredients(recipe: Recipe) {
     const items = normalizeLines(recipe.ingredients);
     if (!items.length) {
@@ -370,10 +583,11 @@ export function App() {
 
     const checked = checkedIngredientsByRecipeId[recipe.id] ?? {};
     const multiplier = multiplierByRecipeId[recipe.id] ?? 1;
+    const units = user?.unitPreference ?? 'original';
     return (
       <ul className="checklist">
         {items.map((raw, idx) => {
-          const label = multiplier !== 1 ? scaleLeadingQuantity(raw, multiplier) : raw;
+          const label = formatIngredientLine(raw, { multiplier, units });
           const isChecked = Boolean(checked[idx]);
           return (
             <li key={`${recipe.id}:ing:${idx}`} className="checklist-item">
@@ -451,6 +665,18 @@ export function App() {
             <span className="multiplier-suffix">x</span>
           </div>
         </label>
+        <div className="units-toggle" role="group" aria-label="Units">
+          {UNIT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              className={(user?.unitPreference ?? 'original') === option.value ? 'btn primary' : 'btn'}
+              type="button"
+              onClick={() => void onChangeUnits(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
     );
   }
@@ -475,7 +701,9 @@ export function App() {
     setError(null);
     setBusy(true);
     try {
-      const created = await createRecipe(sourceUrl);
+      // Anything that isn't a link starts a hand-entered recipe with that title.
+      const input = sourceUrl.trim();
+      const created = isUrl(input) ? await createRecipe(input) : await createManualRecipe({ title: input });
       setSourceUrl('');
       await refreshList();
       setSelectedId(created.id);
@@ -502,15 +730,118 @@ export function App() {
   }
 
   async function onSaveEdits() {
+    if (!selectedId || !selected) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await updateRecipe(selectedId, draftChanges(selected, draft));
+      const updated = await getRecipe(selectedId);
+      setSelected(updated);
+      setDraft(draftFromRecipe(updated));
+      await refreshList();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onUnlockFields() {
+    if (!selectedId || !selected?.manualFields?.length) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await updateRecipe(selectedId, { unlockFields: selected.manualFields });
+      setSelected(await getRecipe(selectedId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onChangeUnits(unitPreference: UnitPreference) {
+    if (!user || user.unitPreference === unitPreference) return;
+    const previous = user.unitPreference;
+    setError(null);
+    setUser({ ...user, unitPreference });
+    try {
+      await updatePreferences({ unitPreference });
+    } catch (e) {
+      setUser((current) => (current ? { ...current, unitPreference: previous } : current));
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    }
+  }
+
+  // Tag renames and merges show up both in the list and in the open recipe.
+  async function refreshSelectedAndList() {
+    await refreshList();
+    if (selectedId) setSelected(await getRecipe(selectedId));
+  }
+
+  async function onAccountRestored() {
+    // The backup may carry a different unit preference.
+    const current = await authMe();
+    if (current) setUser(current);
+    await refreshList();
+  }
+
+  async function onHouseholdChanged() {
+    // Recipes may have been merged into the household's copies, so the selection can be gone.
+    setSelectedId(null);
+    await refreshList();
+  }
+
+  async function onToggleShare() {
+    if (!selectedId || !selected) return;
+    setError(null);
+    setBusy(true);
+    try {
+      if (selected.shareToken) {
+        if (!window.confirm('Stop sharing? The current link will stop working.')) return;
+        await unshareRecipe(selectedId);
+        setSelected({ ...selected, shareToken: null });
+      } else {
+        const { shareToken } = await shareRecipe(selectedId);
+        setSelected({ ...selected, shareToken });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onSavePersonalNote() {
+    if (!selectedId || !selected || noteDraft === null) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const personalNote = await setPersonalNote(selectedId, noteDraft.trim());
+      setSelected({ ...selected, personalNote });
+      setNoteDraft(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onLogCooked() {
     if (!selectedId) return;
     setError(null);
     setBusy(true);
     try {
-      const updated = await updateRecipe(selectedId, {
-        title: editTitle.trim() || undefined,
-        notes: editNotes.trim() ? editNotes : null
+      const rating = Number.parseInt(cookRating, 10);
+      await logCooked(selectedId, {
+        rating: Number.isInteger(rating) ? rating : null,
+        comment: cookComment.trim() || null
       });
-      setSelected(updated);
+      setCookRating('');
+      setCookComment('');
+      const [r, events] = await Promise.all([getRecipe(selectedId), listCookEvents(selectedId)]);
+      setSelected(r);
+      setCookEvents(events);
       await refreshList();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Unknown error');
@@ -519,6 +850,36 @@ export function App() {
     }
   }
 
+  async function onDeleteCookEvent(eventId: number) {
+    if (!selectedId) return;
+    setError(null);
+    setBusy(true);
+    try {
+      await deleteCookEvent(selectedId, eventId);
+      const [r, events] = await Promise.all([getRecipe(selectedId), listCookEvents(selectedId)]);
+      setSelected(r);
+      setCookEvents(events);
+      await refreshList();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onCreateShoppingList(payload: Parameters<typeof createShoppingList>[0]) {
+    setError(null);
+    setBusy(true);
+    try {
+      const list = await createShoppingList(payload);
+      setShoppingListId(list.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function onDeleteCurrent() {
     if (!selectedId) return;
     setError(null);
@@ -571,7 +932,7 @@ export function App() {
 
               {r && (
                 <>
-                  <RecipeBanner title={r.title} imageUrl={r.imageUrl} />
+                  <RecipeBanner title={r.title} imageUrl={r.imageUrl} image={r.image} size="banner" />
                   {r.description && <div className="recipe-subtitle">{r.description}</div>}
                   {renderServingsAndMultiplier(r)}
 
@@ -586,6 +947,8 @@ export function App() {
 
                   {r.scrapeStatus === 'error' && r.scrapeError && <div className="error">{r.scrapeError}</div>}
 
+                  {renderDetails(r)}
+
                   <div className="kv">
                     <b>Ingredients</b>
                     {renderIngredients(r)}
@@ -627,6 +990,7 @@ export function App() {
       setFullScreenRecipeId(null);
       setFullScreenRecipeDetail(null);
       setMultiplierDraftByRecipeId({});
+      setShoppingListId(null);
     }
   }
 
@@ -663,8 +1027,9 @@ export function App() {
         </div>
         <p>
           Add a recipe URL. The app will try to extract the recipe (JSON-LD) and present it in a consistent view.
-          If scraping fails, you can still keep the link and re-scrape later.
+          If scraping fails, you can still keep the link and re-scrape later. Family recipes without a link can be typed in by hand.
         </p>
+        {!user.emailVerifiedAt && <VerifyEmailNotice onError={setError} />}
       </header>
 
       <div className="grid">
@@ -675,12 +1040,104 @@ export function App() {
               className="input"
               value={sourceUrl}
               onChange={(e) => setSourceUrl(e.target.value)}
-              placeholder="Paste recipe URL (e.g. https://...)"
+              placeholder="Paste recipe URL, or type a title to enter one by hand"
             />
             <button className="btn primary" disabled={busy || !sourceUrl.trim()} type="submit">
               Add
             </button>
           </form>
+          <ImportRecipes onImported={() => refreshList()} onError={setError} />
+          <AccountBackup onRestored={() => onAccountRestored()} onError={setError} />
+          <Household userId={user.id} onChanged={() => onHouseholdChanged()} onError={setError} />
+          <Sessions onSignedOut={() => onLogout()} onError={setError} />
+          <ChangePassword onError={setError} />
+          <LinkedAccounts onError={setError} />
+          <ApiTokens onError={setError} />
+          <TagManager reloadKey={facets} onChanged={() => refreshSelectedAndList()} onError={setError} />
+
+          <div className="recipe-filters">
+            <input
+              className="input"
+              type="search"
+              value={search.q ?? ''}
+              onChange={(e) => updateSearch({ q: e.target.value })}
+              placeholder="Search titles, ingredients, instructions, notes"
+              aria-label="Search recipes"
+            />
+            {!!facets.tags.length && (
+              <div className="row recipe-labels" role="group" aria-label="Filter by tag">
+                {facets.tags.map((t) => {
+                  const active = search.tags?.some((tag) => tag.toLowerCase() === t.tag.toLowerCase()) ?? false;
+                  return (
+                    <button
+                      key={t.tag}
+                      type="button"
+                      className={active ? 'tag-chip active' : 'tag-chip'}
+                      aria-pressed={active}
+                      onClick={() => toggleTagFilter(t.tag)}
+                    >
+                      {t.tag} <small>{t.count}</small>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+            <div className="row">
+              <select
+                className="select"
+                value={search.sourceHost ?? ''}
+                onChange={(e) => updateSearch({ sourceHost: e.target.value || undefined })}
+                aria-label="Site"
+              >
+                <option value="">All sites</option>
+                {facets.sourceHosts.map((h) => (
+                  <option key={h.sourceHost} value={h.sourceHost}>
+                    {h.sourceHost} ({h.count})
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select"
+                value={search.maxMinutes ?? ''}
+                onChange={(e) => updateSearch({ maxMinutes: e.target.value ? Number(e.target.value) : undefined })}
+                aria-label="Cooking time"
+              >
+                <option value="">Any time</option>
+                {TIME_LIMITS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    ≤ {formatMinutes(minutes)}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="select"
+                value={search.scrapeStatus ?? ''}
+                onChange={(e) => updateSearch({ scrapeStatus: (e.target.value || undefined) as RecipeSearch['scrapeStatus'] })}
+                aria-label="Scrape status"
+              >
+                <option value="">Any status</option>
+                <option value="ok">Scraped</option>
+                <option value="pending">Pending</option>
+                <option value="error">Scrape failed</option>
+              </select>
+              <label className="multiplier">
+                <span>Sort</span>
+                <select
+                  className="select"
+                  value={search.sort ?? (search.q?.trim() ? 'relevance' : 'updated')}
+                  onChange={(e) => updateSearch({ sort: e.target.value as RecipeSort })}
+                >
+                  {(Object.keys(SORT_LABELS) as RecipeSort[])
+                    .filter((option) => option !== 'relevance' || search.q?.trim())
+                    .map((option) => (
+                      <option key={option} value={option}>
+                        {SORT_LABELS[option]}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            </div>
+          </div>
 
           <div className="list" role="list">
             {recipes.map((r) => (
@@ -702,11 +1159,13 @@ export function App() {
                   }
                 }}
               >
-                <RecipeBanner title={r.title} imageUrl={r.imageUrl} />
+                <RecipeBanner title={r.title} imageUrl={r.imageUrl} image={r.image} size="list" />
                 <div className="card-top">
                   <div>
                     <h3>{r.title}</h3>
-                    <small>{r.sourceHost ?? new URL(r.sourceUrl).hostname}</small>
+                    <small>{r.sourceHost ?? (r.sourceUrl ? new URL(r.sourceUrl).hostname : 'Entered by hand')}</small>
+                    <small className="cooked-summary">{cookedSummary(r)}</small>
+                    {!!r.tags?.length && <small className="recipe-tags">{r.tags.join(' · ')}</small>}
                   </div>
                   <div className="row" style={{ justifyContent: 'flex-end' }}>
                     <button
@@ -725,7 +1184,33 @@ export function App() {
                 </div>
               </div>
             ))}
+            {!recipes.length && total === 0 && (search.q || search.tags || search.sourceHost || search.maxMinutes || search.scrapeStatus) && (
+              <div className="recipe-facts">No recipes match these filters.</div>
+            )}
           </div>
+          {total > PAGE_SIZE && (
+            <div className="row pager">
+              <button
+                className="btn"
+                type="button"
+                disabled={(search.page ?? 1) <= 1}
+                onClick={() => setSearch({ ...search, page: (search.page ?? 1) - 1 })}
+              >
+                Previous
+              </button>
+              <span>
+                Page {search.page ?? 1} of {Math.ceil(total / PAGE_SIZE)} · {total} recipes
+              </span>
+              <button
+                className="btn"
+                type="button"
+                disabled={(search.page ?? 1) >= Math.ceil(total / PAGE_SIZE)}
+                onClick={() => setSearch({ ...search, page: (search.page ?? 1) + 1 })}
+              >
+                Next
+              </button>
+            </div>
+          )}
         </section>
 
         <section className="panel detail">
@@ -734,7 +1219,7 @@ export function App() {
 
           {selected && (
             <>
-              <RecipeBanner title={selected.title} imageUrl={selected.imageUrl} />
+              <RecipeBanner title={selected.title} imageUrl={selected.imageUrl} image={selected.image} size="banner" />
               <div className="row" style={{ justifyContent: 'space-between', marginTop: '0.8rem' }}>
                 <div>
                   <div style={{ fontSize: '1.2rem', fontWeight: 800 }}>{selected.title}</div>
@@ -742,19 +1227,66 @@ export function App() {
                   {renderServingsAndMultiplier(selected)}
                 </div>
                 <div className="row">
-                  <a className="btn" href={selected.sourceUrl} target="_blank" rel="noreferrer">
-                    Open Source
-                  </a>
+                  {selected.sourceUrl && (
+                    <a className="btn" href={selected.sourceUrl} target="_blank" rel="noreferrer">
+                      Open Source
+                    </a>
+                  )}
                   <button className="btn" type="button" disabled={busy} onClick={() => setFullScreenRecipeId(selected.id)}>
                     Full screen
                   </button>
-                  <button className="btn" type="button" disabled={busy} onClick={onRescrape}>
-                    Re-scrape
+                  {selected.sourceUrl && (
+                    <button className="btn" type="button" disabled={busy} onClick={onRescrape}>
+                      Re-scrape
+                    </button>
+                  )}
+                  <button
+                    className="btn"
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      void onCreateShoppingList({
+                        name: selected.title,
+                        recipes: [{ recipeId: selected.id, multiplier: multiplierByRecipeId[selected.id] ?? 1 }]
+                      })
+                    }
+                  >
+                    Shopping list
+                  </button>
+                  <button className="btn" type="button" disabled={busy} onClick={() => void onToggleShare()}>
+                    {selected.shareToken ? 'Stop sharing' : 'Share'}
                   </button>
                 </div>
               </div>
 
+              {selected.shareToken && (
+                <div className="recipe-facts" style={{ marginTop: '0.6rem' }}>
+                  Anyone with this link can view the recipe:{' '}
+                  <input className="input" readOnly value={shareLink(selected.shareToken)} onFocus={(e) => e.target.select()} />
+                </div>
+              )}
+
               {selected.scrapeStatus === 'error' && selected.scrapeError && <div className="error">{selected.scrapeError}</div>}
+              {selected.scrapeStatus === 'pending' && scrapeJob && scrapeJobSummary(scrapeJob) && (
+                <div className="recipe-facts" style={{ marginTop: '0.6rem' }}>
+                  {scrapeJobSummary(scrapeJob)}
+                </div>
+              )}
+
+              {renderDetails(selected)}
+
+              {!!selected.tags?.length && (
+                <div className="kv">
+                  <b>Tags</b>
+                  <div className="row recipe-labels">
+                    {selected.tags.map((tag) => (
+                      <button key={tag} type="button" className="tag-chip" onClick={() => toggleTagFilter(tag)}>
+                        {tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
 
               <div className="kv">
                 <b>Ingredients</b>
@@ -766,21 +1298,174 @@ export function App() {
                 {renderInstructions(selected)}
               </div>
 
+              <div className="kv">
+                <b>Cooked</b>
+                <div className="cooked-summary">{cookedSummary(selected)}</div>
+                <div className="row">
+                  <select className="select" value={cookRating} onChange={(e) => setCookRating(e.target.value)} aria-label="Rating">
+                    <option value="">No rating</option>
+                    {[5, 4, 3, 2, 1].map((n) => (
+                      <option key={n} value={n}>
+                        {'★'.repeat(n)}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    className="input"
+                    value={cookComment}
+                    onChange={(e) => setCookComment(e.target.value)}
+                    placeholder="Comment (optional)"
+                  />
+                  <button className="btn" type="button" disabled={busy} onClick={() => void onLogCooked()}>
+                    Cooked today
+                  </button>
+                </div>
+                {cookEvents.length > 0 && (
+                  <ul className="cook-history">
+                    {cookEvents.map((ev) => (
+                      <li key={ev.id}>
+                        <span>
+                          {formatCookedDate(ev.cookedAt)}
+                          {ev.rating ? ` · ${'★'.repeat(ev.rating)}` : ''}
+                          {ev.comment ? ` · ${ev.comment}` : ''}
+                        </span>
+                        <button
+                          className="plan-meal-remove"
+                          type="button"
+                          disabled={busy}
+                          aria-label={`Remove cook entry from ${formatCookedDate(ev.cookedAt)}`}
+                          onClick={() => void onDeleteCookEvent(ev.id)}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="kv">
+                <b>My note</b>
+                <div className="row">
+                  <textarea
+                    className="input"
+                    rows={2}
+                    value={noteDraft ?? selected.personalNote ?? ''}
+                    onChange={(e) => setNoteDraft(e.target.value)}
+                    placeholder="Only you see this"
+                    aria-label="My note"
+                  />
+                  <button className="btn" type="button" disabled={busy || noteDraft === null} onClick={() => void onSavePersonalNote()}>
+                    Save
+                  </button>
+                </div>
+              </div>
+
               <div className="kv">
                 <b>Edit</b>
                 <div className="row" style={{ marginTop: '0.35rem' }}>
-                  <input className="input" value={editTitle} onChange={(e) => setEditTitle(e.target.value)} />
+                  <input
+                    className="input"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder="Title"
+                  />
+                </div>
+                <div className="row" style={{ marginTop: '0.6rem' }}>
+                  <input
+                    className="input"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    placeholder="Description (optional)"
+                  />
+                </div>
+                <div className="row" style={{ marginTop: '0.6rem' }}>
+                  <input
+                    className="input"
+                    value={draft.imageUrl}
+                    onChange={(e) => setDraft({ ...draft, imageUrl: e.target.value })}
+                    placeholder="Image URL (optional)"
+                  />
+                  <input
+                    className="input"
+                    style={{ maxWidth: 120 }}
+                    inputMode="decimal"
+                    value={draft.servings}
+                    onChange={(e) => setDraft({ ...draft, servings: e.target.value })}
+                    placeholder="Servings"
+                    aria-label="Servings"
+                  />
+                  <input
+                    className="input"
+                    style={{ maxWidth: 120 }}
+                    inputMode="numeric"
+                    value={draft.totalMinutes}
+                    onChange={(e) => setDraft({ ...draft, totalMinutes: e.target.value })}
+                    placeholder="Total min"
+                    aria-label="Total minutes"
+                  />
+                </div>
+                <div className="row" style={{ marginTop: '0.6rem' }}>
+                  <textarea
+                    className="input"
+                    value={draft.ingredients}
+                    onChange={(e) => setDraft({ ...draft, ingredients: e.target.value })}
+                    placeholder="Ingredients, one per line"
+                    rows={6}
+                    style={{ width: '100%', resize: 'vertical', minHeight: 110 }}
+                  />
+                </div>
+                <div className="row" style={{ marginTop: '0.6rem' }}>
+                  <textarea
+                    className="input"
+                    value={draft.instructions}
+                    onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                    placeholder="Instructions, one step per line"
+                    rows={6}
+                    style={{ width: '100%', resize: 'vertical', minHeight: 110 }}
+                  />
                 </div>
                 <div className="row" style={{ marginTop: '0.6rem' }}>
                   <textarea
                     className="input"
-                    value={editNotes}
-                    onChange={(e) => setEditNotes(e.target.value)}
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
                     placeholder="Notes (optional)"
                     rows={5}
                     style={{ width: '100%', resize: 'vertical', minHeight: 110 }}
                   />
                 </div>
+                <div className="row" style={{ marginTop: '0.6rem' }}>
+                  <input
+                    className="input"
+                    value={draft.tags}
+                    onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                    placeholder="Tags, comma-separated (e.g. weeknight, vegetarian)"
+                    aria-label="Tags"
+                  />
+                </div>
+                {suggestedTags.length > 0 && (
+                  <div className="row recipe-labels" style={{ marginTop: '0.4rem' }}>
+                    {suggestedTags.map((tag) => (
+                      <button
+                        key={tag}
+                        type="button"
+                        className="tag-chip"
+                        onClick={() => setDraft({ ...draft, tags: [...splitTags(draft.tags), tag].join(', ') })}
+                      >
+                        + {tag}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {selected.sourceUrl && !!selected.manualFields?.length && (
+                  <div className="row" style={{ marginTop: '0.6rem', color: 'var(--muted)', fontSize: '0.85rem' }}>
+                    <span>Edited by hand (kept on re-scrape): {selected.manualFields.map((f) => FIELD_LABELS[f]).join(', ')}</span>
+                    <button className="btn" type="button" disabled={busy} onClick={() => void onUnlockFields()}>
+                      Allow re-scrape to overwrite
+                    </button>
+                  </div>
+                )}
                 <div className="row" style={{ justifyContent: 'space-between', marginTop: '0.6rem', width: '100%' }}>
                   <button className="btn danger" type="button" disabled={busy} onClick={onDeleteCurrent}>
                     Delete
@@ -794,6 +1479,7 @@ export function App() {
               {selectedSummary?.lastScrapedAt && (
                 <div style={{ marginTop: '0.8rem', color: 'var(--muted)', fontSize: '0.85rem' }}>
                   Last scraped: {new Date(selectedSummary.lastScrapedAt).toLocaleString()}
+                  {selected.scrapeExtractor && ` · via ${selected.scrapeExtractor}`}
                 </div>
               )}
             </>
@@ -801,23 +1487,56 @@ export function App() {
         </section>
       </div>
 
+      <WeekPlan
+        selectedRecipe={selected}
+        reloadKey={recipes}
+        onOpenRecipe={(id) => setSelectedId(id)}
+        onCreateShoppingList={(week) => void onCreateShoppingList({ week })}
+        onError={(message) => setError(message)}
+      />
+
+      <ShoppingLists
+        activeListId={shoppingListId}
+        onSelect={setShoppingListId}
+        onError={(message) => setError(message)}
+      />
+
+      <Pantry reloadKey={recipes} onOpenRecipe={(id) => setSelectedId(id)} onError={(message) => setError(message)} />
+
       {error && <div className="panel" style={{ marginTop: '1.2rem', borderColor: 'rgba(251,113,133,0.35)' }}>{error}</div>}
     </div>
   );
 }
 
 function AuthPage({ onAuthenticated }: { onAuthenticated: (user: AuthUser) => void }) {
-  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [mode, setMode] = useState<'login' | 'register' | 'forgot'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [submitting, setSubmitting] = useState(false);
-  const [error, setError] = useState('');
+  // Set when the SSO callback sent the browser back with ?sso_error=.
+  const [error, setError] = useState(() => new URLSearchParams(window.location.search).get('sso_error') ?? '');
+  const [resetSent, setResetSent] = useState(false);
+  const [providers, setProviders] = useState<AuthProviders>({ oidc: null });
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).has('sso_error')) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    void getAuthProviders()
+      .then(setProviders)
+      .catch(() => undefined);
+  }, []);
 
   async function submit() {
     try {
       setSubmitting(true);
       setError('');
       const normalizedEmail = email.trim().toLowerCase();
+      if (mode === 'forgot') {
+        await requestPasswordReset(normalizedEmail);
+        setResetSent(true);
+        return;
+      }
       const response =
         mode === 'login'
           ? await authLogin({ email: normalizedEmail, password })
@@ -842,7 +1561,7 @@ function AuthPage({ onAuthenticated }: { onAuthenticated: (user: AuthUser) => vo
         <p className="auth-subtitle">Sign in so each person has their own recipe list, notes, and checklists.</p>
 
         <div className="row auth-mode-row" style={{ justifyContent: 'space-between', alignItems: 'center' }}>
-          <div className="auth-mode-title">{mode === 'login' ? 'Login' : 'Create account'}</div>
+          <div className="auth-mode-title">{mode === 'login' ? 'Login' : mode === 'register' ? 'Create account' : 'Reset password'}</div>
           <div className="row" style={{ gap: '0.4rem' }}>
             <button className={mode === 'login' ? 'btn primary' : 'btn'} type="button" onClick={() => setMode('login')}>
               Login
@@ -866,22 +1585,43 @@ function AuthPage({ onAuthenticated }: { onAuthenticated: (user: AuthUser) => vo
           />
         </div>
 
-        <div className="row" style={{ marginTop: '0.6rem' }}>
-          <input
-            className="input"
-            type="password"
-            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            placeholder="Password (8+ chars)"
-          />
-        </div>
+        {mode === 'forgot' ? (
+          resetSent && (
+            <p className="auth-subtitle">If there is an account for that email, a link to choose a new password is on its way.</p>
+          )
+        ) : (
+          <div className="row" style={{ marginTop: '0.6rem' }}>
+            <input
+              className="input"
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (8+ chars)"
+            />
+          </div>
+        )}
 
-        <div className="row" style={{ marginTop: '0.9rem', justifyContent: 'flex-end' }}>
+        <div className="row" style={{ marginTop: '0.9rem', justifyContent: 'space-between' }}>
+          {mode === 'login' ? (
+            <button className="btn" type="button" onClick={() => setMode('forgot')}>
+              Forgot password?
+            </button>
+          ) : (
+            <span />
+          )}
           <button className="btn primary" type="button" onClick={() => void submit()} disabled={submitting}>
-            {submitting ? 'Please wait…' : mode === 'login' ? 'Sign in' : 'Create account'}
+            {submitting ? 'Please wait…' : mode === 'login' ? 'Sign in' : mode === 'register' ? 'Create account' : 'Send reset link'}
           </button>
         </div>
+
+        {providers.oidc && mode !== 'forgot' && (
+          <div className="row" style={{ marginTop: '0.9rem' }}>
+            <a className="btn" href={oidcSignInUrl()} style={{ flex: 1, textAlign: 'center' }}>
+              Sign in with {providers.oidc.name}
+            </a>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { confirmEmail, resetPassword } from './api';
+
+// Back to the app proper, without the token in the address bar.
+function appHome(): string {
+  return window.location.pathname;
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="auth-shell">
+      <div className="panel auth-card">
+        <h1 className="auth-title">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// Opened from the password reset email (?reset=<token>).
+export function ResetPassword({ token }: { token: string }) {
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (password !== confirm) {
+      setError('The passwords don’t match');
+      return;
+    }
+    try {
+      setSubmitting(true);
+      setError('');
+      await resetPassword({ token, password });
+      // Signed in by the reset; the app picks the session up on load.
+      window.location.replace(appHome());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset the password');
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Card title="Choose a new password">
+      <p className="auth-subtitle">You’ll be signed out everywhere else.</p>
+      {error ? <div className="error">{error}</div> : null}
+      <form onSubmit={submit}>
+        <div className="row" style={{ marginTop: '0.9rem' }}>
+          <input
+            className="input"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="New password (8+ chars)"
+          />
+        </div>
+        <div className="row" style={{ marginTop: '0.6rem' }}>
+          <input
+            className="input"
+            type="password"
+            autoComplete="new-password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            placeholder="Repeat it"
+          />
+        </div>
+        <div className="row" style={{ marginTop: '0.9rem', justifyContent: 'flex-end' }}>
+          <button className="btn primary" type="submit" disabled={submitting || password.length < 8}>
+            {submitting ? 'Please wait…' : 'Set password'}
+          </button>
+        </div>
+      </form>
+    </Card>
+  );
+}
+
+// Opened from the verification email (?verify=<token>).
+export function VerifyEmail({ token }: { token: string }) {
+  const [status, setStatus] = useState<'pending' | 'done' | string>('pending');
+  // StrictMode runs the effect twice in development, and the token only works once.
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    void confirmEmail(token)
+      .then(() => setStatus('done'))
+      .catch((e) => setStatus(e instanceof Error ? e.message : 'Could not confirm the email'));
+  }, [token]);
+
+  return (
+    <Card title="Confirm email">
+      {status === 'pending' && <div className="pre">Confirming…</div>}
+      {status === 'done' && <p className="auth-subtitle">Thanks, your email is confirmed.</p>}
+      {status !== 'pending' && status !== 'done' && <div className="error">{status}</div>}
+      <div className="row" style={{ marginTop: '0.9rem', justifyContent: 'flex-end' }}>
+        <a className="btn" href={appHome()}>
+          Continue to Meal Rotation
+        </a>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+
+import type { Household as HouseholdData, HouseholdRole } from './api';
+import {
+  createHousehold,
+  createHouseholdInvite,
+  getHousehold,
+  joinHousehold,
+  removeHouseholdMember,
+  revokeHouseholdInvite,
+  setHouseholdRole
+} from './api';
+
+const ROLES: HouseholdRole[] = ['owner', 'editor', 'viewer'];
+
+// Invite links land on the app with ?invite=<token>.
+function inviteFromUrl(): string {
+  return new URLSearchParams(window.location.search).get('invite') ?? '';
+}
+
+function inviteLink(token: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set('invite', token);
+  return url.toString();
+}
+
+export function Household({
+  userId,
+  onChanged,
+  onError
+}: {
+  userId: number;
+  // Called after joining, creating or leaving: the recipe pool and plan are different now.
+  onChanged: () => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [household, setHousehold] = useState<HouseholdData | null>(null);
+  const [name, setName] = useState('');
+  const [token, setToken] = useState(inviteFromUrl);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRole>('editor');
+  const [newLink, setNewLink] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    void getHousehold()
+      .then(setHousehold)
+      .catch((e) => onError(e instanceof Error ? e.message : 'Unknown error'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function run(action: () => Promise<unknown>, poolChanged = false) {
+    setBusy(true);
+    try {
+      await action();
+      setHousehold(await getHousehold());
+      if (poolChanged) await onChanged();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onCreate(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    void run(async () => {
+      await createHousehold(name.trim());
+      setName('');
+    }, true);
+  }
+
+  function onJoin(e: React.FormEvent) {
+    e.preventDefault();
+    if (!token.trim()) return;
+    void run(async () => {
+      await joinHousehold(token.trim());
+      setToken('');
+      window.history.replaceState(null, '', window.location.pathname);
+    }, true);
+  }
+
+  function onInvite(e: React.FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const created = await createHouseholdInvite({ email: inviteEmail.trim() || undefined, role: inviteRole });
+      setNewLink(inviteLink(created.token));
+      setInviteEmail('');
+    });
+  }
+
+  function onRemove(memberId: number, email: string) {
+    const leaving = memberId === userId;
+    const last = household?.members.length === 1;
+    const message = leaving
+      ? last
+        ? 'Leave and close this household? Its recipes and plans become yours again.'
+        : 'Leave this household? Its recipes and plans stay with the other members.'
+      : `Remove ${email} from the household?`;
+    if (!window.confirm(message)) return;
+    void run(() => removeHouseholdMember(memberId), leaving);
+  }
+
+  if (!household) {
+    return (
+      <details className="import-panel" open={!!token}>
+        <summary>Household</summary>
+        <div className="recipe-facts">
+          Share one recipe pool and meal plan with the people you cook with. Your recipes, tags and plans move into it.
+        </div>
+        <form onSubmit={onCreate} className="row" style={{ marginTop: '0.4rem' }}>
+          <input className="input" value={name} onChange={(e) => setName(e.target.value)} placeholder="Household name" />
+          <button className="btn" type="submit" disabled={busy || !name.trim()}>
+            Create
+          </button>
+        </form>
+        <form onSubmit={onJoin} className="row" style={{ marginTop: '0.4rem' }}>
+          <input className="input" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Invite code" />
+          <button className="btn primary" type="submit" disabled={busy || !token.trim()}>
+            Join
+          </button>
+        </form>
+      </details>
+    );
+  }
+
+  const isOwner = household.role === 'owner';
+
+  return (
+    <details className="import-panel">
+      <summary>
+        Household: {household.name} ({household.role})
+      </summary>
+      <ul className="household-members">
+        {household.members.map((m) => (
+          <li key={m.userId} className="row">
+            <span>{m.userId === userId ? `${m.email} (you)` : m.email}</span>
+            {isOwner ? (
+              <select
+                className="select"
+                value={m.role}
+                disabled={busy}
+                onChange={(e) => void run(() => setHouseholdRole(m.userId, e.target.value as HouseholdRole))}
+                aria-label={`Role of ${m.email}`}
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <small>{m.role}</small>
+            )}
+            {(isOwner || m.userId === userId) && (
+              <button className="btn" type="button" disabled={busy} onClick={() => onRemove(m.userId, m.email)}>
+                {m.userId === userId ? 'Leave' : 'Remove'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <form onSubmit={onInvite} className="row" style={{ marginTop: '0.4rem' }}>
+            <input
+              className="input"
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Email (optional; only that account can join)"
+            />
+            <select
+              className="select"
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as HouseholdRole)}
+              aria-label="Role for the invite"
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button className="btn" type="submit" disabled={busy}>
+              Invite
+            </button>
+          </form>
+          {newLink && (
+            <div className="recipe-facts" style={{ marginTop: '0.4rem' }}>
+              Send this link; it works once and is shown only now: <input className="input" readOnly value={newLink} />
+            </div>
+          )}
+          {!!household.invites.length && (
+            <ul className="household-members">
+              {household.invites.map((invite) => (
+                <li key={invite.id} className="row">
+                  <span>
+                    {invite.email ?? 'Invite'} · {invite.role} · expires {invite.expiresAt.slice(0, 10)}
+                  </span>
+                  <button className="btn" type="button" disabled={busy} onClick={() => void run(() => revokeHouseholdInvite(invite.id))}>
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+
+import type { ExportImportReport, ImportReport } from './api';
+import { importRecipeExport, importRecipes } from './api';
+
+// Browser bookmark exports inline every favicon as a data: URI, which can push
+// the file past the API's body limit; the URLs are all we need.
+function stripBookmarkIcons(text: string): string {
+  return text.replace(/\sICON(?:_URI)?="[^"]*"/gi, '');
+}
+
+export function ImportRecipes({ onImported, onError }: { onImported: () => Promise<void>; onError: (message: string) => void }) {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [exportFile, setExportFile] = useState<File | null>(null);
+  const [exportReport, setExportReport] = useState<ExportImportReport | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const urls = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+      const result = await importRecipes({ urls, file: file ? stripBookmarkIcons(await file.text()) : undefined });
+      setReport(result);
+      setText('');
+      setFile(null);
+      await onImported();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onImportExport(e: React.FormEvent) {
+    e.preventDefault();
+    if (!exportFile) return;
+    setBusy(true);
+    try {
+      setExportReport(await importRecipeExport(exportFile));
+      setExportFile(null);
+      await onImported();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const problems = report?.results.filter((r) => r.status === 'invalid') ?? [];
+
+  return (
+    <details className="import-panel">
+      <summary>Import many</summary>
+      <form onSubmit={onSubmit}>
+        <textarea
+          className="input"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste recipe URLs, one per line"
+          rows={4}
+          style={{ width: '100%', resize: 'vertical' }}
+        />
+        <div className="row" style={{ marginTop: '0.5rem', justifyContent: 'space-between' }}>
+          <input
+            type="file"
+            accept=".html,.htm,.txt,text/html,text/plain"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            aria-label="Bookmarks or text file"
+          />
+          <button className="btn primary" type="submit" disabled={busy || (!text.trim() && !file)}>
+            Import
+          </button>
+        </div>
+      </form>
+
+      {report && (
+        <div className="recipe-facts" style={{ marginTop: '0.5rem' }}>
+          {report.summary.queued} queued · {report.summary.duplicate} already saved · {report.summary.invalid} skipped
+          {!!problems.length && (
+            <ul className="import-problems">
+              {problems.slice(0, 20).map((r, idx) => (
+                <li key={`${idx}:${r.input}`}>{r.input}</li>
+              ))}
+              {problems.length > 20 && <li>…and {problems.length - 20} more</li>}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={onImportExport} style={{ marginTop: '0.8rem' }}>
+        <div className="recipe-facts">From Paprika, Mealie, Tandoor or a schema.org JSON file</div>
+        <div className="row" style={{ marginTop: '0.4rem', justifyContent: 'space-between' }}>
+          <input
+            type="file"
+            accept=".paprikarecipes,.paprikarecipe,.zip,.json,application/zip,application/json"
+            onChange={(e) => setExportFile(e.target.files?.[0] ?? null)}
+            aria-label="Recipe app export"
+          />
+          <button className="btn primary" type="submit" disabled={busy || !exportFile}>
+            Import
+          </button>
+        </div>
+      </form>
+
+      {exportReport && (
+        <div className="recipe-facts" style={{ marginTop: '0.5rem' }}>
+          {exportReport.summary.imported} imported · {exportReport.summary.duplicate} already saved
+        </div>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+
+import type { Pantry as PantryData, PantryMatch } from './api';
+import { addPantryItems, deletePantryItem, getPantry, listPantryMatches, setPantryStaples } from './api';
+
+function splitNames(text: string): string[] {
+  return text
+    .split(/[,\n]/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function Pantry({
+  reloadKey,
+  onOpenRecipe,
+  onError
+}: {
+  // Matches are recomputed whenever this changes (e.g. the recipe list).
+  reloadKey: unknown;
+  onOpenRecipe: (id: number) => void;
+  onError: (message: string) => void;
+}) {
+  const [pantry, setPantry] = useState<PantryData | null>(null);
+  const [matches, setMatches] = useState<PantryMatch[]>([]);
+  const [draft, setDraft] = useState('');
+  const [staplesDraft, setStaplesDraft] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function reload() {
+    const [p, m] = await Promise.all([getPantry(), listPantryMatches()]);
+    setPantry(p);
+    setMatches(m);
+  }
+
+  useEffect(() => {
+    void reload().catch((e) => onError(e instanceof Error ? e.message : 'Unknown error'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reloadKey]);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      await reload();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const names = splitNames(draft);
+    if (!names.length) return;
+    void run(async () => {
+      await addPantryItems(names);
+      setDraft('');
+    });
+  }
+
+  function onSaveStaples(e: React.FormEvent) {
+    e.preventDefault();
+    if (staplesDraft === null) return;
+    void run(async () => {
+      await setPantryStaples(splitNames(staplesDraft));
+      setStaplesDraft(null);
+    });
+  }
+
+  if (!pantry) return null;
+
+  return (
+    <section className="panel plan-panel">
+      <h2>What can I cook?</h2>
+
+      <form onSubmit={onAdd} className="row" style={{ marginTop: '0.8rem' }}>
+        <input
+          className="input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add what you have, e.g. eggs, spinach, feta"
+        />
+        <button className="btn primary" type="submit" disabled={busy || !draft.trim()}>
+          Add
+        </button>
+      </form>
+
+      {!!pantry.items.length && (
+        <div className="pantry-items">
+          {pantry.items.map((item) => (
+            <span key={item.id} className="pantry-chip">
+              {item.name}
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => void run(() => deletePantryItem(item.id))}
+                aria-label={`Remove ${item.name}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <details className="import-panel">
+        <summary>Staples (never counted as missing): {pantry.staples.join(', ') || 'none'}</summary>
+        <form onSubmit={onSaveStaples} className="row">
+          <input
+            className="input"
+            value={staplesDraft ?? pantry.staples.join(', ')}
+            onChange={(e) => setStaplesDraft(e.target.value)}
+            aria-label="Staples"
+          />
+          <button className="btn" type="submit" disabled={busy || staplesDraft === null}>
+            Save
+          </button>
+          <button
+            className="btn"
+            type="button"
+            disabled={busy}
+            onClick={() =>
+              void run(async () => {
+                await setPantryStaples(null);
+                setStaplesDraft(null);
+              })
+            }
+          >
+            Reset
+          </button>
+        </form>
+      </details>
+
+      {!!pantry.items.length && !matches.length && (
+        <div className="pre" style={{ marginTop: '0.8rem' }}>
+          No recipes with parsed ingredients to match yet.
+        </div>
+      )}
+
+      {!!pantry.items.length && !!matches.length && (
+        <ul className="pantry-matches">
+          {matches.map((m) => (
+            <li key={m.recipe.id}>
+              <button className="plan-meal-title" type="button" onClick={() => onOpenRecipe(m.recipe.id)}>
+                {m.recipe.title}
+              </button>{' '}
+              <small>
+                {m.have}/{m.total} on hand ({Math.round(m.coverage * 100)}%)
+              </small>
+              {!!m.missing.length && <div className="recipe-facts">Missing: {m.missing.join(' · ')}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+
+import type { AuthSession } from './api';
+import { authLogoutAll, listSessions, revokeSession } from './api';
+
+function formatSeen(iso: string): string {
+  return new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function Sessions({ onSignedOut, onError }: { onSignedOut: () => Promise<void>; onError: (message: string) => void }) {
+  const [sessions, setSessions] = useState<AuthSession[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onRevoke(session: AuthSession) {
+    void run(async () => {
+      await revokeSession(session.id);
+      if (session.current) {
+        await onSignedOut();
+        return;
+      }
+      setSessions(await listSessions());
+    });
+  }
+
+  function onSignOutEverywhere() {
+    if (!window.confirm('Sign out on every device, including this one?')) return;
+    void run(async () => {
+      await authLogoutAll();
+      await onSignedOut();
+    });
+  }
+
+  return (
+    // Loaded on first open; nobody needs the list on every page load.
+    <details
+      className="import-panel"
+      onToggle={(e) => {
+        if ((e.target as HTMLDetailsElement).open) void run(async () => setSessions(await listSessions()));
+      }}
+    >
+      <summary>Signed-in devices</summary>
+      {sessions && (
+        <ul className="session-list">
+          {sessions.map((s) => (
+            <li key={s.id} className="row">
+              <span>
+                {s.userAgent ?? 'Unknown device'}
+                {s.current && ' (this browser)'}
+                <div className="recipe-facts">
+                  Last seen {formatSeen(s.lastSeenAt)}
+                  {s.ip && ` · ${s.ip}`}
+                </div>
+              </span>
+              <button className="btn" type="button" disabled={busy} onClick={() => onRevoke(s)}>
+                Sign out
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="row" style={{ marginTop: '0.6rem' }}>
+        <button className="btn" type="button" disabled={busy} onClick={onSignOutEverywhere}>
+          Sign out everywhere
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+
+import { formatIngredientLine } from '@meal-rotation/ingredients';
+
+import type { SharedRecipe as SharedRecipeData } from './api';
+import { getSharedRecipe } from './api';
+
+function lines(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).map((s) => s.trim()).filter(Boolean) : [];
+}
+
+function minutes(value: number | null | undefined, label: string): string | null {
+  return value ? `${label} ${value} min` : null;
+}
+
+// The read-only page behind a share link; shown without signing in.
+export function SharedRecipe({ token }: { token: string }) {
+  const [recipe, setRecipe] = useState<SharedRecipeData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void getSharedRecipe(token)
+      .then(setRecipe)
+      .catch((e) => setError(e instanceof Error ? e.message : 'Unknown error'));
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="container">
+        <div className="panel">
+          <div className="error">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <div className="container">
+        <div className="panel">
+          <div className="pre">Loading…</div>
+        </div>
+      </div>
+    );
+  }
+
+  const facts = [
+    minutes(recipe.prepMinutes, 'Prep'),
+    minutes(recipe.cookMinutes, 'Cook'),
+    minutes(recipe.totalMinutes, 'Total'),
+    recipe.servingsText ?? (recipe.servings ? `Serves ${recipe.servings}` : null),
+    recipe.author ? `By ${recipe.author}` : null
+  ].filter(Boolean);
+  const ingredients = lines(recipe.ingredients);
+  const steps = lines(recipe.instructions);
+
+  return (
+    <div className="container">
+      <section className="panel shared-recipe">
+        {recipe.imageUrl && <img className="shared-recipe-img" src={recipe.imageUrl} alt="" referrerPolicy="no-referrer" />}
+        <h1>{recipe.title}</h1>
+        {recipe.description && <div className="recipe-subtitle">{recipe.description}</div>}
+        {!!facts.length && <div className="recipe-facts">{facts.join(' · ')}</div>}
+        {!!recipe.tags?.length && (
+          <div className="recipe-tags">
+            {recipe.tags.map((tag) => (
+              <span key={tag} className="tag-chip">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="kv">
+          <b>Ingredients</b>
+          <ul>
+            {ingredients.map((line, idx) => (
+              <li key={idx}>{formatIngredientLine(line)}</li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="kv">
+          <b>Instructions</b>
+          <ol className="steps">
+            {steps.map((step, idx) => (
+              <li key={idx}>{step}</li>
+            ))}
+          </ol>
+        </div>
+
+        {recipe.sourceUrl && (
+          <div className="recipe-facts">
+            Original recipe:{' '}
+            <a href={recipe.sourceUrl} target="_blank" rel="noreferrer">
+              {recipe.sourceHost ?? recipe.sourceUrl}
+            </a>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+
+import type { ShoppingList, ShoppingListSummary } from './api';
+import { deleteShoppingList, getShoppingList, listShoppingLists, setShoppingListItemChecked } from './api';
+
+export function ShoppingLists({
+  activeListId,
+  onSelect,
+  onError
+}: {
+  activeListId: number | null;
+  onSelect: (id: number | null) => void;
+  onError: (message: string) => void;
+}) {
+  const [lists, setLists] = useState<ShoppingListSummary[]>([]);
+  const [active, setActive] = useState<ShoppingList | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void Promise.all([listShoppingLists(), activeListId ? getShoppingList(activeListId) : Promise.resolve(null)])
+      .then(([all, list]) => {
+        if (cancelled) return;
+        setLists(all);
+        setActive(list);
+      })
+      .catch((e) => {
+        if (!cancelled) onError(e instanceof Error ? e.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeListId]);
+
+  async function toggle(itemId: number, checked: boolean) {
+    if (!active) return;
+    // Optimistic: check-off should feel instant while standing in the shop.
+    setActive({
+      ...active,
+      groups: active.groups.map((g) => ({
+        ...g,
+        items: g.items.map((i) => (i.id === itemId ? { ...i, checked } : i))
+      }))
+    });
+
+    try {
+      await setShoppingListItemChecked(active.id, itemId, checked);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+      setActive(await getShoppingList(active.id));
+    }
+  }
+
+  async function onDelete() {
+    if (!active) return;
+    if (!window.confirm(`Delete shopping list “${active.name}”?`)) return;
+
+    setBusy(true);
+    try {
+      await deleteShoppingList(active.id);
+      onSelect(null);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!lists.length && !active) return null;
+
+  return (
+    <section className="panel plan-panel">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h2>Shopping list</h2>
+        <div className="row">
+          <select
+            className="select"
+            value={activeListId ?? ''}
+            onChange={(e) => onSelect(e.target.value ? Number(e.target.value) : null)}
+            aria-label="Shopping list"
+          >
+            <option value="">Choose a list…</option>
+            {lists.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name} ({l.itemCount})
+              </option>
+            ))}
+          </select>
+          {active && (
+            <button className="btn danger" type="button" disabled={busy} onClick={() => void onDelete()}>
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {active && !active.groups.length && <div className="pre" style={{ marginTop: '0.8rem' }}>No ingredients to buy.</div>}
+
+      {active && (
+        <div className="shopping-groups">
+          {active.groups.map((group) => (
+            <div key={group.category} className="kv">
+              <b>{group.category}</b>
+              <ul className="checklist">
+                {group.items.map((item) => (
+                  <li key={item.id} className="checklist-item">
+                    <label className="check-item">
+                      <input type="checkbox" checked={item.checked} onChange={(e) => void toggle(item.id, e.target.checked)} />
+                      <span className={item.checked ? 'check-text checked' : 'check-text'}>{item.text}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+
+import type { Tag } from './api';
+import { deleteTag, listTags, mergeTags, renameTag } from './api';
+
+export function TagManager({
+  reloadKey,
+  onChanged,
+  onError
+}: {
+  // Tags are reloaded whenever this changes (e.g. the recipe list).
+  reloadKey: unknown;
+  onChanged: () => Promise<void>;
+  onError: (message: string) => void;
+}) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [names, setNames] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    void listTags()
+      .then(setTags)
+      .catch((e) => onError(e instanceof Error ? e.message : 'Unknown error'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reloadKey]);
+
+  async function run(action: () => Promise<unknown>) {
+    setBusy(true);
+    try {
+      await action();
+      setNames({});
+      setTags(await listTags());
+      await onChanged();
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function onDelete(tag: Tag) {
+    const usage = tag.count ? ` It will be removed from ${tag.count} recipe${tag.count === 1 ? '' : 's'}.` : '';
+    if (!window.confirm(`Delete tag “${tag.name}”?${usage}`)) return;
+    void run(() => deleteTag(tag.id));
+  }
+
+  if (!tags.length) return null;
+
+  return (
+    <details className="import-panel">
+      <summary>Manage tags</summary>
+      <ul className="tag-manager">
+        {tags.map((tag) => {
+          const name = names[tag.id] ?? tag.name;
+          return (
+            <li key={tag.id} className="row">
+              <input
+                className="input"
+                value={name}
+                onChange={(e) => setNames({ ...names, [tag.id]: e.target.value })}
+                aria-label={`Rename ${tag.name}`}
+              />
+              <small>{tag.count}</small>
+              <button
+                className="btn"
+                type="button"
+                disabled={busy || !name.trim() || name.trim() === tag.name}
+                onClick={() => void run(() => renameTag(tag.id, name.trim()))}
+              >
+                Rename
+              </button>
+              <select
+                className="select"
+                value=""
+                disabled={busy}
+                onChange={(e) => {
+                  const targetId = Number(e.target.value);
+                  if (targetId) void run(() => mergeTags(targetId, [tag.id]));
+                }}
+                aria-label={`Merge ${tag.name} into`}
+              >
+                <option value="">Merge into…</option>
+                {tags
+                  .filter((t) => t.id !== tag.id)
+                  .map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+              </select>
+              <button className="btn danger" type="button" disabled={busy} onClick={() => onDelete(tag)}>
+                Delete
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+
+import type { MealSlot, Recipe, WeekPlan as WeekPlanData } from './api';
+import { assignPlannedMeal, generateWeekPlan, getWeekPlan, removePlannedMeal } from './api';
+
+const SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+const SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner'
+};
+
+function toDateKey(date: Date): string {
+  // Local calendar date, not UTC: "this week" should match the user's wall clock.
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function shiftDateKey(key: string, days: number): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d + days));
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function dayLabel(key: string): string {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export function WeekPlan({
+  selectedRecipe,
+  reloadKey,
+  onOpenRecipe,
+  onCreateShoppingList,
+  onError
+}: {
+  selectedRecipe: Pick<Recipe, 'id' | 'title'> | null;
+  // Changes whenever the recipe pool changes (e.g. a planned recipe was deleted).
+  reloadKey: unknown;
+  onOpenRecipe: (id: number) => void;
+  onCreateShoppingList: (week: string) => void;
+  onError: (message: string) => void;
+}) {
+  const [week, setWeek] = useState(() => toDateKey(new Date()));
+  const [plan, setPlan] = useState<WeekPlanData | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [cooldownDays, setCooldownDays] = useState('14');
+  const [requiredTags, setRequiredTags] = useState('');
+  const [excludedTags, setExcludedTags] = useState('');
+  const [seed, setSeed] = useState('');
+  const [generateSummary, setGenerateSummary] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void getWeekPlan(week)
+      .then((p) => {
+        if (!cancelled) setPlan(p);
+      })
+      .catch((e) => {
+        if (!cancelled) onError(e instanceof Error ? e.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [week, reloadKey]);
+
+  async function run(action: () => Promise<WeekPlanData>) {
+    setBusy(true);
+    try {
+      setPlan(await action());
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const weekStart = plan?.weekStart ?? week;
+
+  async function onGenerate() {
+    const parsedSeed = Number.parseInt(seed, 10);
+    await run(async () => {
+      const result = await generateWeekPlan(weekStart, {
+        cooldownDays: Math.max(0, Number.parseInt(cooldownDays, 10) || 0),
+        slots: ['dinner'],
+        requiredTags: splitTags(requiredTags),
+        excludedTags: splitTags(excludedTags),
+        ...(Number.isInteger(parsedSeed) ? { seed: parsedSeed } : {})
+      });
+      setSeed(String(result.seed));
+      setGenerateSummary(
+        result.unfilled.length
+          ? `Filled ${result.filled} dinners; ${result.unfilled.length} left empty (nothing outside the cooldown).`
+          : `Filled ${result.filled} dinners.`
+      );
+      return result.plan;
+    });
+  }
+
+  return (
+    <section className="panel plan-panel">
+      <div className="row" style={{ justifyContent: 'space-between' }}>
+        <h2>Week of {dayLabel(weekStart)}</h2>
+        <div className="row">
+          <button className="btn" type="button" onClick={() => setWeek(shiftDateKey(weekStart, -7))}>
+            Previous
+          </button>
+          <button className="btn" type="button" onClick={() => setWeek(toDateKey(new Date()))}>
+            This week
+          </button>
+          <button className="btn" type="button" onClick={() => setWeek(shiftDateKey(weekStart, 7))}>
+            Next
+          </button>
+          <button
+            className="btn"
+            type="button"
+            disabled={busy || !plan?.meals.length}
+            onClick={() => onCreateShoppingList(weekStart)}
+          >
+            Shopping list
+          </button>
+        </div>
+      </div>
+
+      <div className="row plan-generate">
+        <label className="plan-field">
+          <span>Cooldown (days)</span>
+          <input className="input" type="number" min={0} max={365} value={cooldownDays} onChange={(e) => setCooldownDays(e.target.value)} />
+        </label>
+        <label className="plan-field">
+          <span>Only tags</span>
+          <input className="input" value={requiredTags} onChange={(e) => setRequiredTags(e.target.value)} placeholder="e.g. weeknight" />
+        </label>
+        <label className="plan-field">
+          <span>Skip tags</span>
+          <input className="input" value={excludedTags} onChange={(e) => setExcludedTags(e.target.value)} placeholder="e.g. slow" />
+        </label>
+        <label className="plan-field">
+          <span>Seed</span>
+          <input className="input" inputMode="numeric" value={seed} onChange={(e) => setSeed(e.target.value)} placeholder="random" />
+        </label>
+        <button className="btn primary" type="button" disabled={busy || !plan} onClick={() => void onGenerate()}>
+          Fill empty dinners
+        </button>
+      </div>
+      {generateSummary && <div className="plan-summary">{generateSummary}</div>}
+
+      {!plan && <div className="pre" style={{ marginTop: '0.8rem' }}>Loading plan…</div>}
+
+      {plan && (
+        <div className="plan-grid">
+          {plan.days.map((day) => (
+            <div key={day} className="plan-day">
+              <div className="plan-day-label">{dayLabel(day)}</div>
+              {SLOTS.map((slot) => {
+                const meal = plan.meals.find((m) => m.date === day && m.slot === slot);
+                return (
+                  <div key={slot} className="plan-slot">
+                    <small>{SLOT_LABELS[slot]}</small>
+                    {meal ? (
+                      <div className="plan-meal">
+                        <button className="plan-meal-title" type="button" onClick={() => onOpenRecipe(meal.recipe.id)}>
+                          {meal.recipe.title}
+                        </button>
+                        <button
+                          className="plan-meal-remove"
+                          type="button"
+                          disabled={busy}
+                          aria-label={`Remove ${meal.recipe.title} from ${SLOT_LABELS[slot].toLowerCase()}`}
+                          onClick={() => void run(() => removePlannedMeal(weekStart, meal.id))}
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        className="plan-add"
+                        type="button"
+                        disabled={busy || !selectedRecipe}
+                        title={selectedRecipe ? `Plan ${selectedRecipe.title}` : 'Select a recipe first'}
+                        onClick={() => {
+                          if (!selectedRecipe) return;
+                          void run(() => assignPlannedMeal(weekStart, { date: day, slot, recipeId: selectedRecipe.id }));
+                        }}
+                      >
+                        + Add selected
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,25 +1,83 @@
+import type { ParsedIngredient, UnitPreference } from '@meal-rotation/ingredients';
+
 export type Recipe = {
   id: number;
   title: string;
-  sourceUrl: string;
+  sourceUrl: string | null;
   sourceHost?: string | null;
   imageUrl?: string | null;
+  // Copy of imageUrl cached by the API; absent until it has been downloaded.
+  image?: { id: number } | null;
   description?: string | null;
   servings?: number | null;
   servingsText?: string | null;
   ingredients?: unknown;
+  ingredientsParsed?: ParsedIngredient[] | null;
   instructions?: unknown;
+  prepMinutes?: number | null;
+  cookMinutes?: number | null;
+  totalMinutes?: number | null;
+  cuisine?: string[] | null;
+  category?: string[] | null;
+  keywords?: string[] | null;
+  nutrition?: Record<string, string> | null;
+  author?: string | null;
+  ratingValue?: number | null;
+  ratingCount?: number | null;
   scrapeStatus: 'pending' | 'ok' | 'error';
   scrapeError?: string | null;
+  scrapeExtractor?: string | null;
   lastScrapedAt?: string | null;
   updatedAt: string;
   notes?: string | null;
-  tags?: unknown;
+  // Set while the recipe has a public share link; only on recipe detail.
+  shareToken?: string | null;
+  // The signed-in member's private note; only on recipe detail.
+  personalNote?: string | null;
+  tags?: string[];
+  manualFields?: RecipeField[] | null;
+  lastCookedAt?: string | null;
+  timesCooked?: number;
+};
+
+// Scraped fields that can be edited by hand; edited ones are kept on rescrape.
+export type RecipeField =
+  | 'title'
+  | 'description'
+  | 'imageUrl'
+  | 'servings'
+  | 'servingsText'
+  | 'ingredients'
+  | 'instructions'
+  | 'totalMinutes';
+
+export type RecipeFields = {
+  title?: string;
+  description?: string | null;
+  imageUrl?: string | null;
+  servings?: number | null;
+  servingsText?: string | null;
+  ingredients?: string[] | null;
+  instructions?: string[] | null;
+  totalMinutes?: number | null;
+  notes?: string | null;
+  tags?: string[] | null;
+};
+
+export type CookEvent = {
+  id: number;
+  recipeId: number;
+  cookedAt: string;
+  rating?: number | null;
+  comment?: string | null;
+  createdAt: string;
 };
 
 export type AuthUser = {
   id: number;
   email: string;
+  emailVerifiedAt: string | null;
+  unitPreference: UnitPreference;
 };
 
 async function apiFetch(path: string, init?: RequestInit) {
@@ -81,15 +139,218 @@ export async function authLogout(): Promise<void> {
   await apiFetch('/auth/logout', { method: 'POST' });
 }
 
-export async function listRecipes(): Promise<Recipe[]> {
-  const data = await apiFetch('/recipes');
-  return data.recipes;
+export async function requestPasswordReset(email: string): Promise<void> {
+  await apiFetch('/auth/password-reset', { method: 'POST', body: JSON.stringify({ email }) });
+}
+
+export async function resetPassword(payload: { token: string; password: string }): Promise<{ user: AuthUser }> {
+  return apiFetch('/auth/password-reset/confirm', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function confirmEmail(token: string): Promise<void> {
+  await apiFetch('/auth/verify-email/confirm', { method: 'POST', body: JSON.stringify({ token }) });
+}
+
+export async function resendVerificationEmail(): Promise<void> {
+  await apiFetch('/auth/verify-email', { method: 'POST' });
+}
+
+export async function changePassword(payload: { currentPassword: string; newPassword: string }): Promise<void> {
+  await apiFetch('/auth/change-password', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export type AuthProviders = {
+  // Set when the API is configured for OpenID Connect sign-in.
+  oidc: { name: string } | null;
+};
+
+export async function getAuthProviders(): Promise<AuthProviders> {
+  return apiFetch('/auth/providers');
+}
+
+// A page navigation, not a fetch: the API redirects the browser to the identity provider.
+export function oidcSignInUrl(options: { link?: boolean } = {}): string {
+  return `/api/auth/oidc/start${options.link ? '?link=1' : ''}`;
+}
+
+export type LinkedIdentity = {
+  id: number;
+  createdAt: string;
+  issuer: string;
+  email: string | null;
+};
+
+export async function listIdentities(): Promise<LinkedIdentity[]> {
+  const data = await apiFetch('/auth/identities');
+  return data.identities;
+}
+
+export async function unlinkIdentity(id: number): Promise<void> {
+  await apiFetch(`/auth/identities/${id}`, { method: 'DELETE' });
+}
+
+export type ApiToken = {
+  id: number;
+  name: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+};
+
+export async function listApiTokens(): Promise<{ tokens: ApiToken[]; scopes: string[] }> {
+  return apiFetch('/auth/tokens');
+}
+
+// The token itself is only in this response.
+export async function createApiToken(payload: {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}): Promise<{ apiToken: ApiToken; token: string }> {
+  return apiFetch('/auth/tokens', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function revokeApiToken(id: number): Promise<void> {
+  await apiFetch(`/auth/tokens/${id}`, { method: 'DELETE' });
+}
+
+export type AuthSession = {
+  id: number;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  userAgent: string | null;
+  ip: string | null;
+  // The session this browser is using.
+  current: boolean;
+};
+
+export async function listSessions(): Promise<AuthSession[]> {
+  const data = await apiFetch('/auth/sessions');
+  return data.sessions;
+}
+
+export async function revokeSession(id: number): Promise<void> {
+  await apiFetch(`/auth/sessions/${id}`, { method: 'DELETE' });
+}
+
+// Signs out every device, this one included.
+export async function authLogoutAll(): Promise<void> {
+  await apiFetch('/auth/logout-all', { method: 'POST' });
+}
+
+export async function updatePreferences(patch: { unitPreference: UnitPreference }): Promise<{ unitPreference: UnitPreference }> {
+  const data = await apiFetch('/account/preferences', { method: 'PUT', body: JSON.stringify(patch) });
+  return data.preferences;
+}
+
+export type AccountImportReport = {
+  recipes: { created: number; updated: number };
+  plannedMeals: number;
+  cookEvents: { created: number; skipped: number };
+  shoppingLists: { created: number; skipped: number };
+};
+
+// A download link rather than a fetch, so the browser saves the file itself.
+export function recipeImageUrl(imageId: number, size: 'original' | 'list' | 'banner'): string {
+  return `/api/images/${imageId}?size=${size}`;
+}
+
+export function accountExportUrl(options: { images: boolean }): string {
+  return `/api/account/export${options.images ? '?images=1' : ''}`;
+}
+
+// Restores a file from accountExportUrl (JSON or zip); running it twice changes nothing.
+export async function importAccount(file: File): Promise<AccountImportReport> {
+  const data = await apiFetch('/account/import', {
+    method: 'POST',
+    body: file,
+    headers: { 'content-type': 'application/octet-stream' }
+  });
+  return data.report;
+}
+
+export type RecipeSort = 'updated' | 'created' | 'title' | 'time' | 'relevance' | 'longest-since-cooked' | 'most-cooked';
+
+export type RecipeSearch = {
+  q?: string;
+  tags?: string[];
+  sourceHost?: string;
+  scrapeStatus?: Recipe['scrapeStatus'];
+  minMinutes?: number;
+  maxMinutes?: number;
+  // Server default: relevance when searching, otherwise recently updated.
+  sort?: RecipeSort;
+  page?: number;
+  pageSize?: number;
+};
+
+export type RecipePage = {
+  recipes: Recipe[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export async function listRecipes(search: RecipeSearch = {}): Promise<RecipePage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(search)) {
+    if (value === undefined || value === '') continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const query = params.toString();
+  return apiFetch(`/recipes${query ? `?${query}` : ''}`);
+}
+
+export type RecipeFacets = {
+  sourceHosts: Array<{ sourceHost: string; count: number }>;
+  tags: Array<{ tag: string; count: number }>;
+};
+
+export async function getRecipeFacets(): Promise<RecipeFacets> {
+  return apiFetch('/recipes/facets');
 }
 
 export async function createRecipe(sourceUrl: string, title?: string): Promise<{ id: number; alreadyExists?: boolean }> {
   return apiFetch('/recipes', { method: 'POST', body: JSON.stringify({ sourceUrl, title }) });
 }
 
+export async function createManualRecipe(fields: RecipeFields & { title: string }): Promise<{ id: number }> {
+  return apiFetch('/recipes', { method: 'POST', body: JSON.stringify(fields) });
+}
+
+export type ImportResult = {
+  input: string;
+  url: string | null;
+  status: 'queued' | 'duplicate' | 'invalid';
+  recipeId?: number | null;
+};
+
+export type ImportReport = {
+  summary: { queued: number; duplicate: number; invalid: number };
+  results: ImportResult[];
+};
+
+export async function importRecipes(payload: { urls?: string[]; file?: string }): Promise<ImportReport> {
+  return apiFetch('/recipes/import', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export type ExportImportReport = {
+  format: 'paprika' | 'mealie' | 'tandoor' | 'schema-org';
+  summary: { imported: number; duplicate: number };
+  results: Array<{ title: string; sourceUrl: string | null; status: 'imported' | 'duplicate'; recipeId: number | null }>;
+};
+
+// Paprika, Mealie, Tandoor or schema.org exports, uploaded as-is.
+export async function importRecipeExport(file: File): Promise<ExportImportReport> {
+  return apiFetch('/recipes/import/file', {
+    method: 'POST',
+    body: file,
+    headers: { 'content-type': 'application/octet-stream' }
+  });
+}
+
 export async function getRecipe(id: number): Promise<Recipe> {
   const data = await apiFetch(`/recipes/${id}`);
   return data.recipe;
@@ -104,10 +365,312 @@ export async function deleteRecipe(id: number): Promise<void> {
   await apiFetch(`/recipes/${id}`, { method: 'DELETE' });
 }
 
+export type ScrapeJob = {
+  id: number;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  createdAt: string;
+  finishedAt?: string | null;
+  lastError?: string | null;
+  history: Array<{
+    startedAt: string;
+    finishedAt: string;
+    ok: boolean;
+    error?: string | null;
+    httpStatus?: number | null;
+    transient: boolean;
+  }>;
+};
+
+export async function listScrapeJobs(recipeId: number): Promise<ScrapeJob[]> {
+  const data = await apiFetch(`/recipes/${recipeId}/scrape-jobs`);
+  return data.jobs;
+}
+
 export async function updateRecipe(
   id: number,
-  patch: { title?: string; notes?: string | null; tags?: string[] | null }
+  patch: RecipeFields & { unlockFields?: RecipeField[] }
 ): Promise<Recipe> {
   const data = await apiFetch(`/recipes/${id}`, { method: 'PUT', body: JSON.stringify(patch) });
   return data.recipe;
 }
+
+export async function listCookEvents(recipeId: number): Promise<CookEvent[]> {
+  const data = await apiFetch(`/recipes/${recipeId}/cooked`);
+  return data.events;
+}
+
+export async function logCooked(
+  recipeId: number,
+  payload: { cookedAt?: string; rating?: number | null; comment?: string | null } = {}
+): Promise<CookEvent> {
+  const data = await apiFetch(`/recipes/${recipeId}/cooked`, { method: 'POST', body: JSON.stringify(payload) });
+  return data.event;
+}
+
+export async function deleteCookEvent(recipeId: number, eventId: number): Promise<void> {
+  await apiFetch(`/recipes/${recipeId}/cooked/${eventId}`, { method: 'DELETE' });
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export type PlannedMeal = {
+  id: number;
+  date: string;
+  slot: MealSlot;
+  note?: string | null;
+  recipe: Pick<Recipe, 'id' | 'title' | 'imageUrl' | 'image' | 'sourceHost'>;
+};
+
+export type WeekPlan = {
+  id: number | null;
+  weekStart: string;
+  notes?: string | null;
+  days: string[];
+  meals: PlannedMeal[];
+};
+
+export async function getWeekPlan(week: string): Promise<WeekPlan> {
+  const data = await apiFetch(`/plans/${week}`);
+  return data.plan;
+}
+
+export async function assignPlannedMeal(
+  week: string,
+  payload: { date: string; slot: MealSlot; recipeId: number; note?: string | null }
+): Promise<WeekPlan> {
+  const data = await apiFetch(`/plans/${week}/meals`, { method: 'PUT', body: JSON.stringify(payload) });
+  return data.plan;
+}
+
+export async function removePlannedMeal(week: string, mealId: number): Promise<WeekPlan> {
+  const data = await apiFetch(`/plans/${week}/meals/${mealId}`, { method: 'DELETE' });
+  return data.plan;
+}
+
+export type GeneratePlanOptions = {
+  seed?: number;
+  cooldownDays?: number;
+  slots?: MealSlot[];
+  requiredTags?: string[];
+  excludedTags?: string[];
+};
+
+export async function generateWeekPlan(
+  week: string,
+  options: GeneratePlanOptions
+): Promise<{ plan: WeekPlan; seed: number; filled: number; unfilled: Array<{ date: string; slot: MealSlot }> }> {
+  return apiFetch(`/plans/${week}/generate`, { method: 'POST', body: JSON.stringify(options) });
+}
+
+export type ShoppingListItem = {
+  id: number;
+  item: string;
+  quantity?: number | null;
+  unit?: string | null;
+  text: string;
+  checked: boolean;
+};
+
+export type ShoppingList = {
+  id: number;
+  name: string;
+  weekStart?: string | null;
+  createdAt: string;
+  groups: Array<{ category: string; items: ShoppingListItem[] }>;
+};
+
+export type ShoppingListSummary = Pick<ShoppingList, 'id' | 'name' | 'weekStart' | 'createdAt'> & { itemCount: number };
+
+export async function listShoppingLists(): Promise<ShoppingListSummary[]> {
+  const data = await apiFetch('/shopping-lists');
+  return data.lists;
+}
+
+export async function createShoppingList(payload: {
+  name?: string;
+  week?: string;
+  recipes?: Array<{ recipeId: number; multiplier?: number }>;
+}): Promise<ShoppingList> {
+  const data = await apiFetch('/shopping-lists', { method: 'POST', body: JSON.stringify(payload) });
+  return data.list;
+}
+
+export async function getShoppingList(id: number): Promise<ShoppingList> {
+  const data = await apiFetch(`/shopping-lists/${id}`);
+  return data.list;
+}
+
+export async function setShoppingListItemChecked(listId: number, itemId: number, checked: boolean): Promise<void> {
+  await apiFetch(`/shopping-lists/${listId}/items/${itemId}`, { method: 'PATCH', body: JSON.stringify({ checked }) });
+}
+
+export async function deleteShoppingList(id: number): Promise<void> {
+  await apiFetch(`/shopping-lists/${id}`, { method: 'DELETE' });
+}
+
+export type PantryItem = { id: number; name: string };
+
+export type Pantry = {
+  items: PantryItem[];
+  staples: string[];
+  defaultStaples: string[];
+};
+
+export type PantryMatch = {
+  recipe: Pick<Recipe, 'id' | 'title' | 'image'> & {
+    imageUrl: string | null;
+    sourceHost: string | null;
+    totalMinutes: number | null;
+  };
+  coverage: number;
+  have: number;
+  total: number;
+  missing: string[];
+};
+
+export async function getPantry(): Promise<Pantry> {
+  return apiFetch('/pantry');
+}
+
+export async function addPantryItems(names: string[]): Promise<Pantry> {
+  return apiFetch('/pantry', { method: 'POST', body: JSON.stringify({ names }) });
+}
+
+export async function deletePantryItem(id: number): Promise<void> {
+  await apiFetch(`/pantry/${id}`, { method: 'DELETE' });
+}
+
+// null restores the default staples.
+export async function setPantryStaples(staples: string[] | null): Promise<Pantry> {
+  return apiFetch('/pantry/staples', { method: 'PUT', body: JSON.stringify({ staples }) });
+}
+
+export async function listPantryMatches(options: { maxMissing?: number } = {}): Promise<PantryMatch[]> {
+  const query = options.maxMissing !== undefined ? `?maxMissing=${options.maxMissing}` : '';
+  const data = await apiFetch(`/pantry/matches${query}`);
+  return data.matches;
+}
+
+export type Tag = { id: number; name: string; count: number };
+
+export async function listTags(): Promise<Tag[]> {
+  const data = await apiFetch('/tags');
+  return data.tags;
+}
+
+export async function renameTag(id: number, name: string): Promise<void> {
+  await apiFetch(`/tags/${id}`, { method: 'PATCH', body: JSON.stringify({ name }) });
+}
+
+// Moves every recipe tagged with one of `sourceIds` to tag `id`, then deletes the sources.
+export async function mergeTags(id: number, sourceIds: number[]): Promise<Tag[]> {
+  const data = await apiFetch(`/tags/${id}/merge`, { method: 'POST', body: JSON.stringify({ sourceIds }) });
+  return data.tags;
+}
+
+export async function deleteTag(id: number): Promise<void> {
+  await apiFetch(`/tags/${id}`, { method: 'DELETE' });
+}
+
+// Empty clears the note.
+export async function setPersonalNote(recipeId: number, body: string): Promise<string | null> {
+  const data = await apiFetch(`/recipes/${recipeId}/note`, { method: 'PUT', body: JSON.stringify({ body }) });
+  return data.personalNote;
+}
+
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export type HouseholdInvite = { id: number; email: string | null; role: HouseholdRole; expiresAt: string; createdAt: string };
+
+export type Household = {
+  id: number;
+  name: string;
+  createdAt: string;
+  // The signed-in user's role.
+  role: HouseholdRole;
+  members: Array<{ userId: number; email: string; role: HouseholdRole; joinedAt: string }>;
+  // Pending invites; only listed for owners.
+  invites: HouseholdInvite[];
+};
+
+export async function getHousehold(): Promise<Household | null> {
+  const data = await apiFetch('/households');
+  return data.household;
+}
+
+export async function createHousehold(name: string): Promise<Household> {
+  const data = await apiFetch('/households', { method: 'POST', body: JSON.stringify({ name }) });
+  return data.household;
+}
+
+export async function renameHousehold(name: string): Promise<Household> {
+  const data = await apiFetch('/households', { method: 'PATCH', body: JSON.stringify({ name }) });
+  return data.household;
+}
+
+// The token is only ever returned here; share it (or a link holding it) with the invitee.
+export async function createHouseholdInvite(payload: {
+  email?: string;
+  role: HouseholdRole;
+}): Promise<{ invite: HouseholdInvite; token: string }> {
+  return apiFetch('/households/invites', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function revokeHouseholdInvite(id: number): Promise<void> {
+  await apiFetch(`/households/invites/${id}`, { method: 'DELETE' });
+}
+
+export async function joinHousehold(token: string): Promise<Household> {
+  const data = await apiFetch('/households/join', { method: 'POST', body: JSON.stringify({ token }) });
+  return data.household;
+}
+
+export async function setHouseholdRole(userId: number, role: HouseholdRole): Promise<Household> {
+  const data = await apiFetch(`/households/members/${userId}`, { method: 'PATCH', body: JSON.stringify({ role }) });
+  return data.household;
+}
+
+// Pass your own id to leave.
+export async function removeHouseholdMember(userId: number): Promise<void> {
+  await apiFetch(`/households/members/${userId}`, { method: 'DELETE' });
+}
+
+export type RecipeShare = { shareToken: string; sharedAt: string };
+
+// Keeps the existing link when the recipe is already shared.
+export async function shareRecipe(id: number): Promise<RecipeShare> {
+  return apiFetch(`/recipes/${id}/share`, { method: 'POST' });
+}
+
+export async function unshareRecipe(id: number): Promise<void> {
+  await apiFetch(`/recipes/${id}/share`, { method: 'DELETE' });
+}
+
+export type SharedRecipe = Pick<
+  Recipe,
+  | 'title'
+  | 'description'
+  | 'imageUrl'
+  | 'sourceUrl'
+  | 'sourceHost'
+  | 'servings'
+  | 'servingsText'
+  | 'ingredients'
+  | 'instructions'
+  | 'prepMinutes'
+  | 'cookMinutes'
+  | 'totalMinutes'
+  | 'cuisine'
+  | 'category'
+  | 'author'
+  | 'tags'
+>;
+
+// Public: works without signing in.
+export async function getSharedRecipe(token: string): Promise<SharedRecipe> {
+  const data = await apiFetch(`/shared/recipes/${encodeURIComponent(token)}`);
+  return data.recipe;
+}
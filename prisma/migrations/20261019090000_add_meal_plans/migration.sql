@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "MealSlot" AS ENUM ('breakfast', 'lunch', 'dinner');
+
+-- CreateTable
+CREATE TABLE "MealPlan" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "weekStart" DATE NOT NULL,
+    "notes" TEXT,
+
+    CONSTRAINT "MealPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlannedMeal" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "planId" INTEGER NOT NULL,
+    "recipeId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "slot" "MealSlot" NOT NULL,
+    "note" TEXT,
+
+    CONSTRAINT "PlannedMeal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlan_userId_weekStart_key" ON "MealPlan"("userId", "weekStart");
+
+-- CreateIndex
+CREATE INDEX "PlannedMeal_recipeId_idx" ON "PlannedMeal"("recipeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlannedMeal_planId_date_slot_key" ON "PlannedMeal"("planId", "date", "slot");
+
+-- AddForeignKey
+ALTER TABLE "MealPlan" ADD CONSTRAINT "MealPlan_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlannedMeal" ADD CONSTRAINT "PlannedMeal_planId_fkey" FOREIGN KEY ("planId") REFERENCES "MealPlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PlannedMeal" ADD CONSTRAINT "PlannedMeal_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "CookEvent" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER NOT NULL,
+    "recipeId" INTEGER NOT NULL,
+    "cookedAt" DATE NOT NULL,
+    "rating" INTEGER,
+    "comment" TEXT,
+
+    CONSTRAINT "CookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CookEvent_userId_cookedAt_idx" ON "CookEvent"("userId", "cookedAt");
+
+-- CreateIndex
+CREATE INDEX "CookEvent_recipeId_cookedAt_idx" ON "CookEvent"("recipeId", "cookedAt");
+
+-- AddForeignKey
+ALTER TABLE "CookEvent" ADD CONSTRAINT "CookEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CookEvent" ADD CONSTRAINT "CookEvent_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
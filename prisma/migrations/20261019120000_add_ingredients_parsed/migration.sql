@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "ingredientsParsed" JSONB;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "UnitPreference" AS ENUM ('original', 'us', 'metric');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "unitPreference" "UnitPreference" NOT NULL DEFAULT 'original';
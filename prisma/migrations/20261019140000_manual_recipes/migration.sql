@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Recipe" ALTER COLUMN "sourceUrl" DROP NOT NULL,
+ADD COLUMN "manualFields" JSONB;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "prepMinutes" INTEGER,
+ADD COLUMN "cookMinutes" INTEGER,
+ADD COLUMN "totalMinutes" INTEGER,
+ADD COLUMN "cuisine" JSONB,
+ADD COLUMN "category" JSONB,
+ADD COLUMN "keywords" JSONB,
+ADD COLUMN "nutrition" JSONB,
+ADD COLUMN "author" TEXT,
+ADD COLUMN "ratingValue" DOUBLE PRECISION,
+ADD COLUMN "ratingCount" INTEGER;
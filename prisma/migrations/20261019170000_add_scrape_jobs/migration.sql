@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "ScrapeJobStatus" AS ENUM ('queued', 'running', 'done', 'failed');
+
+-- CreateTable
+CREATE TABLE "ScrapeJob" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recipeId" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "host" TEXT NOT NULL,
+    "status" "ScrapeJobStatus" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 4,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+
+    CONSTRAINT "ScrapeJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScrapeAttempt" (
+    "id" SERIAL NOT NULL,
+    "jobId" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+    "ok" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "httpStatus" INTEGER,
+    "transient" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "ScrapeAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScrapeJob_status_runAfter_idx" ON "ScrapeJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ScrapeJob_recipeId_idx" ON "ScrapeJob"("recipeId");
+
+-- CreateIndex
+CREATE INDEX "ScrapeAttempt_jobId_idx" ON "ScrapeAttempt"("jobId");
+
+-- AddForeignKey
+ALTER TABLE "ScrapeJob" ADD CONSTRAINT "ScrapeJob_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScrapeAttempt" ADD CONSTRAINT "ScrapeAttempt_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ScrapeJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+-- Generated column: Postgres keeps it in sync on every insert and update.
+ALTER TABLE "Recipe" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(jsonb_to_tsvector('english', coalesce("tags", '[]'::jsonb), '["string"]'), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce("ingredients", '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce("instructions", '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce("notes", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Recipe_searchVector_idx" ON "Recipe" USING GIN ("searchVector");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "pantryStaples" JSONB;
+
+-- CreateTable
+CREATE TABLE "PantryItem" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+
+    CONSTRAINT "PantryItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PantryItem_userId_key_key" ON "PantryItem"("userId", "key");
+
+-- AddForeignKey
+ALTER TABLE "PantryItem" ADD CONSTRAINT "PantryItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecipeTag" (
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recipeId" INTEGER NOT NULL,
+    "tagId" INTEGER NOT NULL,
+
+    CONSTRAINT "RecipeTag_pkey" PRIMARY KEY ("recipeId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_userId_key_key" ON "Tag"("userId", "key");
+
+-- CreateIndex
+CREATE INDEX "RecipeTag_tagId_idx" ON "RecipeTag"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeTag" ADD CONSTRAINT "RecipeTag_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeTag" ADD CONSTRAINT "RecipeTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move Recipe.tags (a JSON string array) into Tag/RecipeTag. Spellings that differ only in case or
+-- whitespace become one tag, named after the most recently updated recipe using it.
+CREATE TEMPORARY TABLE "_recipe_tag_names" AS
+SELECT r."id" AS "recipeId", r."userId", r."updatedAt",
+       regexp_replace(btrim(t.value), '\s+', ' ', 'g') AS "name",
+       lower(regexp_replace(btrim(t.value), '\s+', ' ', 'g')) AS "key"
+FROM "Recipe" r
+CROSS JOIN LATERAL jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(r."tags") = 'array' THEN r."tags" ELSE '[]'::jsonb END
+) AS t(value)
+WHERE btrim(t.value) <> '';
+
+INSERT INTO "Tag" ("userId", "name", "key", "updatedAt")
+SELECT DISTINCT ON ("userId", "key") "userId", "name", "key", CURRENT_TIMESTAMP
+FROM "_recipe_tag_names"
+ORDER BY "userId", "key", "updatedAt" DESC;
+
+INSERT INTO "RecipeTag" ("recipeId", "tagId")
+SELECT DISTINCT n."recipeId", tg."id"
+FROM "_recipe_tag_names" n
+JOIN "Tag" tg ON tg."userId" IS NOT DISTINCT FROM n."userId" AND tg."key" = n."key";
+
+DROP TABLE "_recipe_tag_names";
+
+-- The search column reads "tags", so it goes first and comes back without it.
+DROP INDEX "Recipe_searchVector_idx";
+ALTER TABLE "Recipe" DROP COLUMN "searchVector";
+
+-- AlterTable
+ALTER TABLE "Recipe" DROP COLUMN "tags";
+
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce("ingredients", '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce("instructions", '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce("notes", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Recipe_searchVector_idx" ON "Recipe" USING GIN ("searchVector");
@@ -0,0 +1,114 @@
+-- CreateEnum
+CREATE TYPE "HouseholdRole" AS ENUM ('owner', 'editor', 'viewer');
+
+-- CreateTable
+CREATE TABLE "Household" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "Household_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdMember" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "householdId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" "HouseholdRole" NOT NULL DEFAULT 'editor',
+
+    CONSTRAINT "HouseholdMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HouseholdInvite" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "householdId" INTEGER NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "email" TEXT,
+    "role" "HouseholdRole" NOT NULL DEFAULT 'editor',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+
+    CONSTRAINT "HouseholdInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecipeNote" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "recipeId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+
+    CONSTRAINT "RecipeNote_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Recipe" ADD COLUMN "householdId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "MealPlan" ADD COLUMN "householdId" INTEGER,
+ALTER COLUMN "userId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Tag" ADD COLUMN "householdId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdMember_userId_key" ON "HouseholdMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "HouseholdMember_householdId_idx" ON "HouseholdMember"("householdId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HouseholdInvite_tokenHash_key" ON "HouseholdInvite"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "HouseholdInvite_householdId_idx" ON "HouseholdInvite"("householdId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeNote_recipeId_userId_key" ON "RecipeNote"("recipeId", "userId");
+
+-- CreateIndex
+CREATE INDEX "RecipeNote_userId_idx" ON "RecipeNote"("userId");
+
+-- CreateIndex
+CREATE INDEX "Recipe_householdId_updatedAt_idx" ON "Recipe"("householdId", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlan_householdId_weekStart_key" ON "MealPlan"("householdId", "weekStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_householdId_key_key" ON "Tag"("householdId", "key");
+
+-- AddForeignKey
+ALTER TABLE "HouseholdMember" ADD CONSTRAINT "HouseholdMember_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdMember" ADD CONSTRAINT "HouseholdMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdInvite" ADD CONSTRAINT "HouseholdInvite_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HouseholdInvite" ADD CONSTRAINT "HouseholdInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Recipe" ADD CONSTRAINT "Recipe_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MealPlan" ADD CONSTRAINT "MealPlan_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeNote" ADD CONSTRAINT "RecipeNote_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecipeNote" ADD CONSTRAINT "RecipeNote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "FailedLoginReason" AS ENUM ('unknown_email', 'bad_password', 'throttled');
+
+-- CreateTable
+CREATE TABLE "FailedLogin" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "email" TEXT NOT NULL,
+    "userId" INTEGER,
+    "reason" "FailedLoginReason" NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+
+    CONSTRAINT "FailedLogin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FailedLogin_email_createdAt_idx" ON "FailedLogin"("email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FailedLogin_ip_createdAt_idx" ON "FailedLogin"("ip", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FailedLogin_userId_createdAt_idx" ON "FailedLogin"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FailedLogin" ADD CONSTRAINT "FailedLogin_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
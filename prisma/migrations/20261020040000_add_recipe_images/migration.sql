@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RecipeImage" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recipeId" INTEGER NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "bytes" INTEGER NOT NULL,
+
+    CONSTRAINT "RecipeImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeImage_recipeId_key" ON "RecipeImage"("recipeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeImage_storageKey_key" ON "RecipeImage"("storageKey");
+
+-- AddForeignKey
+ALTER TABLE "RecipeImage" ADD CONSTRAINT "RecipeImage_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- DropForeignKey
+ALTER TABLE "Recipe" DROP CONSTRAINT "Recipe_userId_fkey";
+
+-- DropIndex
+DROP INDEX "Recipe_userId_sourceUrl_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Recipe_householdId_sourceUrl_key" ON "Recipe"("householdId", "sourceUrl");
+
+-- Personal pools: unique per user among recipes outside any household. Not in
+-- schema.prisma, which has no partial indexes.
+CREATE UNIQUE INDEX "Recipe_userId_sourceUrl_personal_key" ON "Recipe"("userId", "sourceUrl") WHERE "householdId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "Recipe" ADD CONSTRAINT "Recipe_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Recipe.userId is ON DELETE SET NULL so household recipes survive the member who added
+-- them. A user's personal recipes should go with them instead; left behind without an
+-- owner they would look like starter templates and be copied into new accounts.
+CREATE FUNCTION "delete_personal_recipes"() RETURNS trigger AS $$
+BEGIN
+    DELETE FROM "Recipe" WHERE "userId" = OLD."id" AND "householdId" IS NULL;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "User_delete_personal_recipes"
+BEFORE DELETE ON "User"
+FOR EACH ROW EXECUTE FUNCTION "delete_personal_recipes"();